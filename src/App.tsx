@@ -1,5 +1,150 @@
 // src/App.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import {
+  BLANK_INPUTS,
+  CONDITION_PRESETS,
+  DEMAND_PRESETS,
+  EXAMPLE_INPUTS,
+  clamp,
+  scoreBuy,
+  VERDICT_BANDS,
+  type BuyInputs,
+  type BuyResult,
+  type VerdictBand,
+  type VerdictTone,
+} from "./lib/scoring";
+import {
+  sensitivityFor,
+  tornadoFor,
+  type Sensitivity,
+} from "./lib/sensitivity";
+import {
+  analyzeWait,
+  describeRecommendation,
+  MAX_PLANNED_WAIT_MONTHS,
+  type WaitAnalysis,
+} from "./lib/wait";
+import {
+  SIMULATION_DRAWS,
+  runMonteCarlo,
+  type SimulationResult,
+} from "./lib/simulation";
+import {
+  ENTRY_VERSION,
+  newEntryId,
+  readEntries,
+  writeEntries,
+  writeUnreadable,
+  type Entry,
+} from "./lib/storage";
+import { downloadText, fileDate } from "./lib/files";
+import { record, redo, startHistory, undo } from "./lib/undo";
+import { appendRevision, type Revision } from "./lib/revisions";
+import {
+  applyImport,
+  exportEntries,
+  exportEntriesCsv,
+  parseCsvImport,
+  parseImport,
+  type ConflictStrategy,
+  type ImportMode,
+  type ImportPreview,
+} from "./lib/transfer";
+import {
+  CURRENCY_OPTIONS,
+  LOCALE_OPTIONS,
+  currencySymbol,
+  formatMoney,
+  pct,
+  signed,
+  type MoneyFormat,
+} from "./lib/format";
+import { readSettings, writeSettings, type Settings } from "./lib/settings";
+import {
+  Chip,
+  LabeledNumber,
+  Pill,
+  ScoreBar,
+  Section,
+  Select,
+  Slider,
+  Toggle,
+} from "./components/ui";
+import { ImportPanel } from "./components/ImportPanel";
+import { FeesEditor } from "./components/FeesEditor";
+import {
+  CUSTOM_TAX_REGION,
+  TAX_REGION_OPTIONS,
+  describeTaxes,
+  taxRegionLabel,
+} from "./lib/tax";
+import { ComparisonView } from "./components/ComparisonView";
+import { TornadoChart } from "./components/TornadoChart";
+import { BandsEditor } from "./components/BandsEditor";
+import { WeightsEditor } from "./components/WeightsEditor";
+import { CoefficientsEditor } from "./components/CoefficientsEditor";
+import { BudgetEditor } from "./components/BudgetEditor";
+import {
+  budgetContextFor,
+  budgetImpactFor,
+  ledgerFor,
+  withBudget,
+} from "./lib/budget";
+import { OutcomeReview } from "./components/OutcomeReview";
+import { CalibrationPanel } from "./components/CalibrationPanel";
+import { PriceWatchPanel } from "./components/PriceWatchPanel";
+import { RevisionHistory } from "./components/RevisionHistory";
+import { CoolingOffEditor } from "./components/CoolingOffEditor";
+import {
+  isDueForRevisit,
+  isProvisional,
+  startCoolingOff,
+  withRevisit,
+} from "./lib/coolingoff";
+import { priceWatchFor } from "./lib/pricewatch";
+import {
+  calibrate,
+  CALIBRATED_PROFILE,
+  outcomeTarget,
+} from "./lib/calibration";
+import {
+  actualCostPerUse,
+  isDueForReview,
+  STATUS_OPTIONS,
+  statusLabel,
+  verdictWasRight,
+  type DecisionOutcome,
+  type EntryStatus,
+} from "./lib/outcomes";
+import { CriteriaEditor } from "./components/CriteriaEditor";
+import { criteriaFor, criterionPoints } from "./lib/criteria";
+import { describePayments, PAYMENT_METHOD_OPTIONS } from "./lib/financing";
+import { CATEGORY_PRESETS, categoryFor } from "./lib/depreciation";
+import { RecurringCostsEditor } from "./components/RecurringCostsEditor";
+import { kindLabel } from "./lib/tco";
+import { pillarFormulas, type Coefficients } from "./lib/coefficients";
+import {
+  BUILT_IN_PROFILES,
+  effectiveWeights,
+  WEIGHT_KEYS,
+  type WeightProfile,
+  type Weights,
+} from "./lib/weights";
+import {
+  describeBands,
+  isDefaultBands,
+  parseBands,
+  sameBands,
+  toneForLabel,
+} from "./lib/bands";
+import {
+  breakEvenFor,
+  describeBreakEven,
+  LEVER_LABELS,
+  type BandBreakEven,
+} from "./lib/breakeven";
+import { clearShareHash, decodeScenario, shareUrl } from "./lib/share";
+import { COMPARE_MAX, COMPARE_MIN } from "./lib/compare";
 
 /**
  * Buy-or-Not — with sticky right-side Decision Summary
@@ -11,283 +156,36 @@ import React, { useEffect, useMemo, useState } from "react";
  * .card, .btn, .btn-primary, .btn-ghost, .btn-danger, .eyebrow, shadow-soft, etc.
  */
 
-// ---------- Helpers ----------
-const clamp = (v: number, lo = 0, hi = 100) => Math.max(lo, Math.min(hi, v));
-const currency = (n: number) =>
-  isFinite(n)
-    ? n.toLocaleString(undefined, { style: "currency", currency: "CAD" })
-    : "—";
-const pct = (n: number) => `${Math.round(n)}%`;
-
-// ---------- Presets ----------
-const CONDITION_PRESETS = [
-  { key: "new", label: "New (unopened)", probMult: 1.0, priceMult: 1.0 },
-  { key: "like_new", label: "Like New", probMult: 1.05, priceMult: 0.95 },
-  { key: "good", label: "Good", probMult: 1.0, priceMult: 0.9 },
-  { key: "fair", label: "Fair", probMult: 0.85, priceMult: 0.8 },
-  { key: "poor", label: "Poor", probMult: 0.7, priceMult: 0.65 },
-] as const;
-
-const DEMAND_PRESETS = [
-  { key: "high", label: "High demand", probMult: 1.15, timeHoursAdd: -0.5 },
-  { key: "medium", label: "Medium", probMult: 1.0, timeHoursAdd: 0 },
-  { key: "low", label: "Low demand", probMult: 0.8, timeHoursAdd: 0.75 },
-] as const;
-
-// ---------- Reusable UI ----------
-function Section({
-  title,
-  children,
-  subtitle,
-}: {
-  title: string;
-  children: React.ReactNode;
-  subtitle?: string;
-}) {
-  return (
-    <div className="card p-5 space-y-3 border border-slate-200">
-      <div>
-        <h2 className="text-xl font-semibold tracking-tight">{title}</h2>
-        {subtitle && <p className="text-sm text-slate-500 mt-1">{subtitle}</p>}
-      </div>
-      {children}
-    </div>
-  );
-}
-
-function LabeledNumber({
-  label,
-  value,
-  onChange,
-  min = 0,
-  max = 100000,
-  step = 1,
-  hint,
-}: {
-  label: string;
-  value: number;
-  onChange: (v: number) => void;
-  min?: number;
-  max?: number;
-  step?: number;
-  hint?: string;
-}) {
-  return (
-    <label className="block">
-      <div className="flex items-baseline justify-between">
-        <span className="text-sm font-medium text-slate-700">{label}</span>
-        {hint && <span className="text-xs text-slate-500">{hint}</span>}
-      </div>
-      <input
-        type="number"
-        className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
-        value={Number.isFinite(value) ? value : ""}
-        onChange={(e) => onChange(Number(e.target.value))}
-        min={min}
-        max={max}
-        step={step}
-      />
-    </label>
-  );
-}
-
-function Slider({
-  label,
-  value,
-  onChange,
-  min = 0,
-  max = 10,
-  step = 1,
-  suffixFn = (v: number) => String(v),
-}: {
-  label: string;
-  value: number;
-  onChange: (v: number) => void;
-  min?: number;
-  max?: number;
-  step?: number;
-  suffixFn?: (v: number) => string;
-}) {
-  return (
-    <label className="block">
-      <div className="flex items-baseline justify-between">
-        <span className="text-sm font-medium text-slate-700">{label}</span>
-        <span className="text-xs text-slate-500">{suffixFn(value)}</span>
-      </div>
-      <input
-        type="range"
-        className="mt-2 w-full"
-        min={min}
-        max={max}
-        step={step}
-        value={value}
-        onChange={(e) => onChange(Number(e.target.value))}
-      />
-    </label>
-  );
-}
-
-function Toggle({
-  label,
-  checked,
-  onChange,
-  hint,
-}: {
-  label: string;
-  checked: boolean;
-  onChange: (v: boolean) => void;
-  hint?: string;
-}) {
-  return (
-    <div className="flex items-center justify-between">
-      <div>
-        <div className="text-sm font-medium text-slate-700">{label}</div>
-        {hint && <div className="text-xs text-slate-500">{hint}</div>}
-      </div>
-      <button
-        className={`relative inline-flex h-6 w-11 items-center rounded-full transition ${
-          checked ? "bg-slate-900" : "bg-slate-300"
-        }`}
-        onClick={() => onChange(!checked)}
-        type="button"
-        aria-pressed={checked}
-      >
-        <span
-          className={`inline-block h-5 w-5 transform rounded-full bg-white transition ${
-            checked ? "translate-x-6" : "translate-x-1"
-          }`}
-        />
-      </button>
-    </div>
-  );
-}
-
-function Select<T extends string>({
-  label,
-  value,
-  onChange,
-  options,
-  hint,
-}: {
-  label: string;
-  value: T;
-  onChange: (v: T) => void;
-  options: { key: T; label: string }[];
-  hint?: string;
-}) {
-  return (
-    <label className="block">
-      <div className="flex items-baseline justify-between">
-        <span className="text-sm font-medium text-slate-700">{label}</span>
-        {hint && <span className="text-xs text-slate-500">{hint}</span>}
-      </div>
-      <select
-        className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0 bg-white"
-        value={value}
-        onChange={(e) => onChange(e.target.value as T)}
-      >
-        {options.map((o) => (
-          <option key={o.key} value={o.key}>
-            {o.label}
-          </option>
-        ))}
-      </select>
-    </label>
-  );
-}
-
-function Pill({
-  children,
-  tone = "gray",
-}: {
-  children: React.ReactNode;
-  tone?: "gray" | "green" | "yellow" | "red" | "blue";
-}) {
-  const tones: Record<string, string> = {
-    gray: "bg-slate-100 text-slate-800",
-    green: "bg-green-100 text-green-800",
-    yellow: "bg-yellow-100 text-yellow-800",
-    red: "bg-red-100 text-red-800",
-    blue: "bg-blue-100 text-blue-800",
-  };
-  return (
-    <span
-      className={`px-2 py-1 rounded-full text-xs font-medium ${tones[tone]}`}
-    >
-      {children}
-    </span>
-  );
-}
-
-function ScoreBar({ label, value }: { label: string; value: number }) {
-  const v = Math.max(0, Math.min(100, Math.round(value)));
-  return (
-    <div>
-      <div className="flex items-center justify-between text-xs mb-1">
-        <span className="font-medium text-slate-700">{label}</span>
-        <span className="tabular-nums text-slate-500">{v}/100</span>
-      </div>
-      <div className="h-2.5 w-full rounded-full bg-slate-200 overflow-hidden">
-        <div
-          className="h-full rounded-full bg-gradient-to-r from-slate-900 to-slate-600"
-          style={{ width: `${v}%` }}
-        />
-      </div>
-    </div>
-  );
-}
-
-function Chip({ children }: { children: React.ReactNode }) {
-  return (
-    <span className="inline-flex items-center rounded-full bg-slate-100 text-slate-700 text-xs px-2 py-1">
-      {children}
-    </span>
-  );
-}
-
 // ---------- Decision Summary (Sticky Sidebar) ----------
-function DecisionSummary(props: {
-  verdictLabel: string;
-  decisionScore: number;
-  stickerCost: number;
-  effectiveCost: number;
-  resaleOffset: number;
-  costPerUse: number;
-  sensitivity: {
-    current: number;
-    noResale: number;
-    bestResale: number;
-    waitSale: number | null;
-  };
-  simulateWait: boolean;
-  monthsToWait: number;
-  targetDiscountPct: number;
+const BAND_BAR: Record<VerdictTone, string> = {
+  green: "bg-green-500",
+  blue: "bg-blue-500",
+  yellow: "bg-yellow-400",
+  red: "bg-red-500",
+  gray: "bg-slate-400",
+};
 
-  budgetImpact: number;
-  useFrequency: number;
-  longevity: number;
-  price: number;
-  taxFor: (p: number) => number;
-  needLevel: number;
-  joyScore: number;
-  workRelated: boolean;
-  resaleAggressive: boolean;
-  altAvailable: number;
-  returnPolicy: number;
-  warranty: number;
-  spaceFit: number;
-  urgency: number;
-  keepOldItem: boolean;
-  minimalismStrength: number;
+function DecisionSummary({
+  inputs,
+  result,
+  sensitivity,
+  simulation,
+  wait,
+  breakEven,
+  provisionalUntil,
+  money,
+}: {
+  inputs: BuyInputs;
+  result: BuyResult;
+  sensitivity: Sensitivity;
+  simulation: SimulationResult | null;
+  wait: WaitAnalysis | null;
+  breakEven: BandBreakEven[];
+  /** Revisit date while the saved entry is cooling off. */
+  provisionalUntil: number | null;
+  money: (n: number) => string;
 }) {
   const {
-    verdictLabel,
-    decisionScore,
-    stickerCost,
-    effectiveCost,
-    resaleOffset,
-    costPerUse,
-    sensitivity,
     simulateWait,
     monthsToWait,
     targetDiscountPct,
@@ -295,7 +193,6 @@ function DecisionSummary(props: {
     useFrequency,
     longevity,
     price,
-    taxFor,
     needLevel,
     joyScore,
     workRelated,
@@ -307,22 +204,36 @@ function DecisionSummary(props: {
     urgency,
     keepOldItem,
     minimalismStrength,
-  } = props;
+    coefficients,
+    criteria,
+  } = inputs;
+  const {
+    verdict,
+    decisionScore,
+    stickerCost,
+    effectiveCost,
+    resaleOffset,
+    costPerUse,
+    tax,
+  } = result;
 
   // Intuitive driver values (0-100) for display
-  const affordability = clamp(100 - budgetImpact * 10);
-  const usage = clamp(useFrequency * 8 + longevity * 4);
-  const priceDrag = clamp(100 - (effectiveCost / Math.max(1, price)) * 50);
+  const c = coefficients;
+  const affordability = clamp(100 - budgetImpact * c.mBudget);
+  const usage = clamp(useFrequency * c.mFrequency + longevity * c.mLongevity);
+  const priceDrag = clamp(
+    100 - (effectiveCost / Math.max(1, price)) * c.mPriceDrag
+  );
   const resaleStrength = clamp((resaleOffset / Math.max(1, stickerCost)) * 100);
-  const need = needLevel * 10;
-  const joy = joyScore * 10;
-  const freq = useFrequency * 8;
+  const need = needLevel * c.mNeed;
+  const joy = joyScore * c.mJoy;
+  const freq = useFrequency * c.mFrequency;
   const work = workRelated ? 100 : 0;
-  const returns = returnPolicy * 10;
-  const warr = warranty * 8;
-  const space = spaceFit * 8;
-  const alternatives = clamp(100 - altAvailable * 7);
-  const urg = urgency * 6;
+  const returns = returnPolicy * c.mReturns;
+  const warr = warranty * c.mWarranty;
+  const space = spaceFit * c.mSpace;
+  const alternatives = clamp(100 - altAvailable * c.mAlternatives);
+  const urg = urgency * c.mUrgency;
 
   return (
     <aside className="sticky top-4">
@@ -331,31 +242,57 @@ function DecisionSummary(props: {
           <div className="text-sm text-slate-500 mb-1">Decision</div>
           <div className="flex items-center gap-3">
             <div className="text-3xl font-extrabold tracking-tight">
-              {verdictLabel}
+              {verdict.label}
             </div>
             <Chip>{decisionScore}/100</Chip>
           </div>
+          {provisionalUntil !== null && (
+            <p className="text-xs text-yellow-700 mt-1">
+              Provisional — sleep on it until{" "}
+              {new Date(provisionalUntil).toLocaleDateString()}.
+            </p>
+          )}
           <p className="text-sm text-slate-500 mt-2">
-            Sticker:{" "}
-            <span className="font-medium">{currency(stickerCost)}</span> •
+            Sticker: <span className="font-medium">{money(stickerCost)}</span> •
             Effective:{" "}
-            <span className="font-medium">{currency(effectiveCost)}</span>{" "}
+            <span className="font-medium">{money(effectiveCost)}</span>{" "}
             <span className="text-slate-400">
-              (offset {currency(resaleOffset)})
+              (trade-in {money(resaleOffset)}
+              {result.futureResale > 0 &&
+                ` • resale later ${money(result.futureResale)}`}
+              {result.runningCosts > 0 &&
+                ` • running +${money(result.runningCosts)}`}
+              )
             </span>
           </p>
           <p className="text-sm text-slate-500">
             Cost per use:{" "}
-            <span className="font-medium">{currency(costPerUse)}</span>{" "}
+            <span className="font-medium">{money(costPerUse)}</span>{" "}
             <span className="text-slate-400">
-              (tax {currency(taxFor(price))})
+              (tax {money(tax)} • {describeTaxes(inputs)})
             </span>
           </p>
-          {simulateWait && (
+          {result.financing.method !== "cash" && (
+            <p className="text-sm text-slate-500">
+              Paying:{" "}
+              <span className="font-medium">
+                {describePayments(result.financing, money)}
+              </span>{" "}
+              <span className="text-slate-400">
+                (≈{money(result.financing.monthlyPayment)}/mo • credit costs{" "}
+                {money(result.financing.costOfCredit)})
+              </span>
+            </p>
+          )}
+          {wait && (
             <p className="text-sm text-slate-500 mt-1">
               Wait <span className="font-medium">{monthsToWait} mo</span> @{" "}
               <span className="font-medium">−{targetDiscountPct}%</span> → score{" "}
               <span className="font-medium">{sensitivity.waitSale}</span>
+              <br />
+              <span className="font-medium text-slate-700">
+                {describeRecommendation(wait)}
+              </span>
             </p>
           )}
         </div>
@@ -386,6 +323,111 @@ function DecisionSummary(props: {
           </div>
         </div>
 
+        <div className="bg-slate-50 rounded-xl p-4">
+          <div className="text-sm font-medium text-slate-700 mb-2">
+            What would change the verdict
+          </div>
+          <div className="space-y-3 text-sm">
+            {breakEven.map((band) => {
+              const reachable = band.levers.filter((l) => l.value !== null);
+              const stuck = band.levers.filter((l) => l.value === null);
+              const reached = decisionScore >= band.min;
+              return (
+                <div key={band.label}>
+                  <div className="flex items-center gap-2">
+                    <Pill tone={band.tone}>{band.label}</Pill>
+                    <span className="text-xs text-slate-500">
+                      {reached ? "holds while" : "if"} (one change at a time)
+                    </span>
+                  </div>
+                  {reachable.length > 0 && (
+                    <ul className="mt-1 space-y-0.5">
+                      {reachable.map((l) => (
+                        <li key={l.key} className="tabular-nums">
+                          {describeBreakEven(l, money)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {stuck.length > 0 && (
+                    <p className="mt-1 text-xs text-slate-500">
+                      No {stuck.map((l) => LEVER_LABELS[l.key]).join(" / ")}{" "}
+                      value gets there on its own.
+                    </p>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        {simulation && (
+          <div className="bg-slate-50 rounded-xl p-4">
+            <div className="text-sm font-medium text-slate-700 mb-2">
+              Simulation
+              <span className="text-xs font-normal text-slate-500">
+                {" "}
+                • {simulation.draws.toLocaleString()} draws • sells in{" "}
+                {pct(simulation.sellRate * 100)}
+              </span>
+            </div>
+            <table className="w-full text-sm tabular-nums">
+              <thead>
+                <tr className="text-xs text-slate-500">
+                  <th className="text-left font-normal" />
+                  <th className="text-right font-normal">P10</th>
+                  <th className="text-right font-normal">Median</th>
+                  <th className="text-right font-normal">P90</th>
+                </tr>
+              </thead>
+              <tbody>
+                <tr>
+                  <td>Effective cost</td>
+                  <td className="text-right">
+                    {money(simulation.effectiveCost.p10)}
+                  </td>
+                  <td className="text-right font-semibold">
+                    {money(simulation.effectiveCost.p50)}
+                  </td>
+                  <td className="text-right">
+                    {money(simulation.effectiveCost.p90)}
+                  </td>
+                </tr>
+                <tr>
+                  <td>Score</td>
+                  <td className="text-right">
+                    {Math.round(simulation.decisionScore.p10)}
+                  </td>
+                  <td className="text-right font-semibold">
+                    {Math.round(simulation.decisionScore.p50)}
+                  </td>
+                  <td className="text-right">
+                    {Math.round(simulation.decisionScore.p90)}
+                  </td>
+                </tr>
+              </tbody>
+            </table>
+            <div className="mt-3 space-y-1.5">
+              {simulation.bands.map((b) => (
+                <div key={b.label} className="text-xs">
+                  <div className="flex items-center justify-between">
+                    <span>{b.label}</span>
+                    <span className="tabular-nums text-slate-500">
+                      {pct(b.probability * 100)}
+                    </span>
+                  </div>
+                  <div className="h-1.5 w-full rounded-full bg-slate-200 overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${BAND_BAR[b.tone]}`}
+                      style={{ width: `${b.probability * 100}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         <div className="space-y-5">
           <div>
             <div className="eyebrow mb-2">Financial</div>
@@ -394,6 +436,13 @@ function DecisionSummary(props: {
               <ScoreBar label="Usage (freq + longevity)" value={usage} />
               <ScoreBar label="Price drag" value={priceDrag} />
               <ScoreBar label="Resale strength" value={resaleStrength} />
+              {criteriaFor(criteria, "financial").map((c, i) => (
+                <ScoreBar
+                  key={i}
+                  label={c.name || "Custom criterion"}
+                  value={criterionPoints(c)}
+                />
+              ))}
             </div>
           </div>
           <div>
@@ -403,6 +452,13 @@ function DecisionSummary(props: {
               <ScoreBar label="Frequency" value={freq} />
               <ScoreBar label="Joy" value={joy} />
               <ScoreBar label="Work boost" value={work} />
+              {criteriaFor(criteria, "utility").map((c, i) => (
+                <ScoreBar
+                  key={i}
+                  label={c.name || "Custom criterion"}
+                  value={criterionPoints(c)}
+                />
+              ))}
             </div>
           </div>
           <div>
@@ -413,6 +469,13 @@ function DecisionSummary(props: {
               <ScoreBar label="Space fit" value={space} />
               <ScoreBar label="Fewer alternatives" value={alternatives} />
               <ScoreBar label="Urgency" value={urg} />
+              {criteriaFor(criteria, "risk").map((c, i) => (
+                <ScoreBar
+                  key={i}
+                  label={c.name || "Custom criterion"}
+                  value={criterionPoints(c)}
+                />
+              ))}
             </div>
             {keepOldItem && (
               <div className="mt-2">
@@ -433,99 +496,179 @@ function DecisionSummary(props: {
 
 // ---------- Main Component ----------
 function BuyOrNot() {
-  // Core inputs
-  const [itemName, setItemName] = useState("Example: Sony WH-1000XM5");
-  const [price, setPrice] = useState(500);
-  const [taxRatePct, setTaxRatePct] = useState(13);
-  const [budgetImpact, setBudgetImpact] = useState(5);
-  const [needLevel, setNeedLevel] = useState(4);
-  const [useFrequency, setUseFrequency] = useState(7);
-  const [joyScore, setJoyScore] = useState(6);
-  const [longevity, setLongevity] = useState(6);
-  const [workRelated, setWorkRelated] = useState(false);
-
-  // Sell-to-offset
-  const [expectSalePrice, setExpectSalePrice] = useState(250);
-  const [saleProbabilityPct, setSaleProbabilityPct] = useState(80);
-  const [platformFees, setPlatformFees] = useState(25);
-  const [shipCost, setShipCost] = useState(20);
-  const [timeHours, setTimeHours] = useState(2);
-  const [hourlyValue, setHourlyValue] = useState(40);
-  const [friction, setFriction] = useState(10);
-  const [resaleAggressive, setResaleAggressive] = useState(false);
-
-  // Condition & demand
-  const [condKey, setCondKey] =
-    useState<(typeof CONDITION_PRESETS)[number]["key"]>("like_new");
-  const [demandKey, setDemandKey] =
-    useState<(typeof DEMAND_PRESETS)[number]["key"]>("medium");
-  const cond = useMemo(
-    () =>
-      CONDITION_PRESETS.find((c) => c.key === condKey) ?? CONDITION_PRESETS[1],
-    [condKey]
+  // Inputs (one object so the scoring engine can take it as-is), with
+  // session undo/redo (see src/lib/undo.ts)
+  const [history, setHistory] = useState(() =>
+    startHistory<BuyInputs>(
+      decodeScenario(location.hash)?.inputs ?? EXAMPLE_INPUTS
+    )
   );
-  const demand = useMemo(
-    () => DEMAND_PRESETS.find((d) => d.key === demandKey) ?? DEMAND_PRESETS[1],
-    [demandKey]
-  );
-
-  // Wait-for-sale
-  const [simulateWait, setSimulateWait] = useState(false);
-  const [targetDiscountPct, setTargetDiscountPct] = useState(10);
-  const [monthsToWait, setMonthsToWait] = useState(1);
-
-  // Per-use
-  const [monthsOwn, setMonthsOwn] = useState(24);
-  const [usesPerWeek, setUsesPerWeek] = useState(5);
+  const inputs = history.present;
+  const setInputs = (next: BuyInputs | ((prev: BuyInputs) => BuyInputs)) =>
+    setHistory((h) =>
+      record(h, typeof next === "function" ? next(h.present) : next)
+    );
+  // Loading or starting over isn't an edit: it starts a fresh history.
+  const replaceInputs = (next: BuyInputs) => setHistory(startHistory(next));
+  const set =
+    <K extends keyof BuyInputs>(key: K) =>
+    (value: BuyInputs[K]) =>
+      setInputs((prev) => ({ ...prev, [key]: value }));
+  const {
+    itemName,
+    price,
+    taxRegion,
+    taxRatePct,
+    fees,
+    paymentMethod,
+    financeAprPct,
+    financeMonths,
+    bnplInstallments,
+    financeFees,
+    budgetImpact,
+    budgetManual,
+    needLevel,
+    useFrequency,
+    joyScore,
+    longevity,
+    workRelated,
+    expectSalePrice,
+    saleProbabilityPct,
+    platformFees,
+    shipCost,
+    timeHours,
+    hourlyValue,
+    friction,
+    resaleAggressive,
+    condKey,
+    demandKey,
+    resaleNewItem,
+    categoryKey,
+    resaleCondKey,
+    newResaleProbPct,
+    newResaleFeesPct,
+    simulateWait,
+    targetDiscountPct,
+    monthsToWait,
+    saleChancePct,
+    priceDriftPctPerYear,
+    simulateResale,
+    salePriceSpreadPct,
+    saleProbSpreadPct,
+    timeSpreadPct,
+    feesSpreadPct,
+    monthsOwn,
+    usesPerWeek,
+    recurringCosts,
+    keepOldItem,
+    minimalismStrength,
+    returnPolicy,
+    warranty,
+    spaceFit,
+    altAvailable,
+    urgency,
+    wFinancial,
+    wUtility,
+    wRisk,
+    normalizeWeights,
+    weightProfile,
+  } = inputs;
 
-  // Minimalism nudge
-  const [keepOldItem, setKeepOldItem] = useState(false);
-  const [minimalismStrength, setMinimalismStrength] = useState(6);
+  // Persistence (localStorage, see src/lib/storage.ts)
+  const [stored] = useState(readEntries);
+  const [entries, setEntries] = useState<Entry[]>(stored.entries);
+  const [unreadable, setUnreadable] = useState<unknown[]>(stored.unreadable);
+  const [activeId, setActiveId] = useState<string | null>(null);
 
-  // Risk/logistics
-  const [returnPolicy, setReturnPolicy] = useState(7);
-  const [warranty, setWarranty] = useState(6);
-  const [spaceFit, setSpaceFit] = useState(8);
-  const [altAvailable, setAltAvailable] = useState(5);
-  const [urgency, setUrgency] = useState(4);
+  // Settings (currency & locale)
+  const [settings, setSettings] = useState<Settings>(readSettings);
+  useEffect(() => writeSettings(settings), [settings]);
+  const setSetting =
+    <K extends keyof Settings>(key: K) =>
+    (value: Settings[K]) =>
+      setSettings((prev) => ({ ...prev, [key]: value }));
 
-  // Weights
-  const [wFinancial, setWFinancial] = useState(0.45);
-  const [wUtility, setWUtility] = useState(0.4);
-  const [wRisk, setWRisk] = useState(0.15);
-  const sumW = useMemo(
-    () => wFinancial + wUtility + wRisk,
-    [wFinancial, wUtility, wRisk]
+  // Weight profiles (built-in + saved in settings)
+  const weightProfiles = useMemo(
+    () =>
+      [...BUILT_IN_PROFILES, ...settings.weightProfiles].map((p) => ({
+        ...p,
+        coefficients: settings.profileCoefficients[p.name],
+      })),
+    [settings.weightProfiles, settings.profileCoefficients]
   );
+  const saveWeightProfile = (profile: WeightProfile) =>
+    setSettings((prev) => ({
+      ...prev,
+      weightProfiles: [
+        ...prev.weightProfiles.filter((p) => p.name !== profile.name),
+        profile,
+      ],
+      profileCoefficients: {
+        ...prev.profileCoefficients,
+        [profile.name]: inputs.coefficients,
+      },
+    }));
+  const deleteWeightProfile = (name: string) => {
+    setSettings((prev) => {
+      const { [name]: _removed, ...profileCoefficients } =
+        prev.profileCoefficients;
+      return {
+        ...prev,
+        weightProfiles: prev.weightProfiles.filter((p) => p.name !== name),
+        profileCoefficients,
+      };
+    });
+    if (weightProfile === name) set("weightProfile")("");
+  };
+  // Coefficients are stored with the attached profile, if there is one.
+  const setCoefficients = (coefficients: Coefficients) => {
+    set("coefficients")(coefficients);
+    if (weightProfile)
+      setSettings((prev) => ({
+        ...prev,
+        profileCoefficients: {
+          ...prev.profileCoefficients,
+          [weightProfile]: coefficients,
+        },
+      }));
+  };
 
-  // Persistence (localStorage)
-  type Entry = {
-    id: string;
-    createdAt: number;
-    name: string;
-    inputs: Record<string, any>;
-    outputs: {
-      decisionScore: number;
-      verdict: string;
-      effectiveCost: number;
-      resaleOffset: number;
-      costPerUse: number;
-    };
+  // The open scenario keeps the currency it was entered in; null = setting.
+  const [scenarioCurrency, setScenarioCurrency] = useState<string | null>(
+    () => decodeScenario(location.hash)?.currency ?? null
+  );
+  const moneyFormat: MoneyFormat = {
+    currency: scenarioCurrency ?? settings.currency,
+    locale: settings.locale,
   };
-  const [entries, setEntries] = useState<Entry[]>([]);
-  const [activeId, setActiveId] = useState<string | null>(null);
+  const money = (n: number) => formatMoney(n, moneyFormat);
+  const entryMoney = (e: Entry) => (n: number) =>
+    formatMoney(n, { currency: e.currency, locale: settings.locale });
+  const symbol = currencySymbol(moneyFormat);
+  const formulas = pillarFormulas(inputs.coefficients, symbol);
 
+  // Shared links (#s=…) open as an unsaved scenario
+  const [fromLink, setFromLink] = useState(
+    () => decodeScenario(location.hash) !== null
+  );
   useEffect(() => {
-    try {
-      const raw = localStorage.getItem("bon_entries_v1");
-      if (raw) setEntries(JSON.parse(raw));
-    } catch {}
+    const openLink = () => {
+      const shared = decodeScenario(location.hash);
+      if (!shared) return;
+      replaceInputs(shared.inputs);
+      setScenarioCurrency(shared.currency ?? null);
+      setActiveId(null);
+      setFromLink(true);
+      clearShareHash();
+    };
+    openLink();
+    window.addEventListener("hashchange", openLink);
+    return () => window.removeEventListener("hashchange", openLink);
   }, []);
-  useEffect(() => {
-    try {
-      localStorage.setItem("bon_entries_v1", JSON.stringify(entries));
-    } catch {}
-  }, [entries]);
+
+  useEffect(() => writeEntries(entries), [entries]);
+  useEffect(() => writeUnreadable(unreadable), [unreadable]);
 
   // Brand + dynamic title
   const brand = {
@@ -544,207 +687,85 @@ function BuyOrNot() {
     };
   }, [itemName]);
 
-  // Derived costs
-  const taxFor = (p: number) => (p * taxRatePct) / 100;
-  const stickerCost = useMemo(() => price + taxFor(price), [price, taxRatePct]);
-  const stickerCostWait = useMemo(() => {
-    const discounted = price * (1 - targetDiscountPct / 100);
-    return discounted + taxFor(discounted);
-  }, [price, targetDiscountPct, taxRatePct]);
-
-  // Adjusted by condition/demand
-  const adjSaleProb = useMemo(
-    () => clamp(saleProbabilityPct * cond.probMult * demand.probMult, 0, 100),
-    [saleProbabilityPct, cond, demand]
+  // Scoring (see src/lib/scoring.ts)
+  const bands = useMemo(
+    () => parseBands(settings.bands) ?? VERDICT_BANDS,
+    [settings.bands]
   );
-  const adjTimeHours = useMemo(
-    () => Math.max(0, timeHours + (demand.timeHoursAdd ?? 0)),
-    [timeHours, demand]
+  // Budget amounts are in the settings currency, so only same-currency
+  // scenarios get a derived budget pain (see src/lib/budget.ts). The engine
+  // re-derives it on every scoring pass, what-ifs included.
+  const budgetContext = useMemo(
+    () =>
+      settings.budget.enabled && moneyFormat.currency === settings.currency
+        ? budgetContextFor(
+            settings.budget,
+            ledgerFor(entries, settings.currency, activeId)
+          )
+        : null,
+    [
+      settings.budget,
+      settings.currency,
+      moneyFormat.currency,
+      entries,
+      activeId,
+    ]
   );
-  const adjSalePrice = useMemo(
-    () => expectSalePrice * cond.priceMult,
-    [expectSalePrice, cond]
+  const result = useMemo(
+    () => scoreBuy(inputs, { budget: budgetContext }, bands),
+    [inputs, budgetContext, bands]
   );
-
-  // Resale offset & effective
-  const resaleOffset = useMemo(() => {
-    const prob = adjSaleProb / 100;
-    const gross = adjSalePrice * prob;
-    const timeCost = adjTimeHours * hourlyValue;
-    const offset = gross - platformFees - shipCost - timeCost - friction;
-    return Math.max(0, offset);
-  }, [
-    adjSaleProb,
-    adjSalePrice,
-    platformFees,
-    shipCost,
-    adjTimeHours,
-    hourlyValue,
-    friction,
-  ]);
-
-  const effectiveCost = useMemo(
-    () => Math.max(0, stickerCost - resaleOffset),
-    [stickerCost, resaleOffset]
+  const budget = useMemo(
+    () =>
+      budgetContext
+        ? budgetImpactFor(settings.budget, budgetContext, result)
+        : null,
+    [settings.budget, budgetContext, result]
   );
-
-  // Per-use
-  const totalExpectedUses = useMemo(
-    () => Math.max(1, usesPerWeek * 4.33 * monthsOwn),
-    [usesPerWeek, monthsOwn]
+  // What gets saved and shared: the inputs, with the pain last derived.
+  const scored = useMemo(() => withBudget(inputs, budget), [inputs, budget]);
+  const sensitivity = useMemo(
+    () => sensitivityFor(inputs, budgetContext, result),
+    [inputs, budgetContext, result]
   );
-  const costPerUse = useMemo(
-    () => effectiveCost / totalExpectedUses,
-    [effectiveCost, totalExpectedUses]
+  const tornado = useMemo(
+    () => tornadoFor(inputs, budgetContext),
+    [inputs, budgetContext]
   );
-
-  // Scores
-  const financialScore = useMemo(() => {
-    const affordability = clamp(100 - budgetImpact * 10);
-    const usage = clamp(useFrequency * 8 + longevity * 4);
-    const priceDrag = clamp(100 - (effectiveCost / Math.max(1, price)) * 50);
-    const resaleBonus = resaleAggressive
-      ? clamp((resaleOffset / Math.max(1, stickerCost)) * 100) * 0.2
-      : 0;
-    const cpuBonus = costPerUse < 1 ? 8 : costPerUse < 3 ? 5 : 0;
-    const base =
-      0.43 * affordability +
-      0.32 * usage +
-      0.2 * priceDrag +
-      resaleBonus +
-      cpuBonus;
-    return clamp(base);
-  }, [
-    budgetImpact,
-    useFrequency,
-    longevity,
-    effectiveCost,
-    price,
-    resaleAggressive,
-    resaleOffset,
-    stickerCost,
-    costPerUse,
-  ]);
-
-  const utilityScore = useMemo(() => {
-    const need = needLevel * 10;
-    const joy = joyScore * 10;
-    const freq = useFrequency * 8;
-    const work = workRelated ? 10 : 0;
-    const aggressiveNudge = resaleAggressive
-      ? Math.min(10, (resaleOffset / Math.max(1, stickerCost)) * 50)
-      : 0;
-    return clamp(
-      0.4 * need + 0.35 * freq + 0.25 * joy + work + aggressiveNudge
-    );
-  }, [
-    needLevel,
-    joyScore,
-    useFrequency,
-    workRelated,
-    resaleAggressive,
-    resaleOffset,
-    stickerCost,
-  ]);
-
-  const riskScore = useMemo(() => {
-    const returns = returnPolicy * 10;
-    const warr = warranty * 8;
-    const space = spaceFit * 8;
-    const alt = 100 - altAvailable * 7;
-    const urg = urgency * 6;
-    const clutterPenalty = keepOldItem ? minimalismStrength : 0;
-    const base =
-      0.3 * returns +
-      0.25 * warr +
-      0.25 * space +
-      0.1 * alt +
-      0.1 * urg -
-      clutterPenalty;
-    return clamp(base);
-  }, [
-    returnPolicy,
-    warranty,
-    spaceFit,
-    altAvailable,
-    urgency,
-    keepOldItem,
-    minimalismStrength,
-  ]);
-
-  const decisionScore = useMemo(() => {
-    const weighted =
-      wFinancial * financialScore + wUtility * utilityScore + wRisk * riskScore;
-    return Math.round(clamp(weighted));
-  }, [wFinancial, wUtility, wRisk, financialScore, utilityScore, riskScore]);
-
-  const verdict = useMemo(() => {
-    if (decisionScore >= 80) return { label: "Buy", tone: "green" as const };
-    if (decisionScore >= 65)
-      return { label: "Lean Buy (watch price)", tone: "blue" as const };
-    if (decisionScore >= 50)
-      return { label: "Wait / Re-evaluate", tone: "yellow" as const };
-    return { label: "Skip for now", tone: "red" as const };
-  }, [decisionScore]);
-
-  // Sensitivity
-  const bestOffset = Math.max(
-    0,
-    adjSalePrice -
-      platformFees -
-      shipCost -
-      adjTimeHours * hourlyValue -
-      friction
+  const breakEven = useMemo(
+    () => breakEvenFor(inputs, bands, budgetContext),
+    [inputs, bands, budgetContext]
   );
-  const scoreFor = ({
-    sticker,
-    offset,
-  }: {
-    sticker: number;
-    offset: number;
-  }) => {
-    const eff = Math.max(0, sticker - offset);
-    const affordability = clamp(100 - budgetImpact * 10);
-    const usage = clamp(useFrequency * 8 + longevity * 4);
-    const priceDrag = clamp(100 - (eff / Math.max(1, price)) * 50);
-    const resaleBonus = resaleAggressive
-      ? clamp((offset / Math.max(1, sticker)) * 100) * 0.2
-      : 0;
-    const fin = clamp(
-      0.43 * affordability + 0.32 * usage + 0.2 * priceDrag + resaleBonus
-    );
-    const utilAgg = resaleAggressive
-      ? Math.min(10, (offset / Math.max(1, sticker)) * 50)
-      : 0;
-    const util = clamp(
-      0.4 * needLevel * 10 +
-        0.35 * useFrequency * 8 +
-        0.25 * joyScore * 10 +
-        (workRelated ? 10 : 0) +
-        utilAgg
-    );
-    const risk = riskScore;
-    const weighted = wFinancial * fin + wUtility * util + wRisk * risk;
-    return Math.round(clamp(weighted));
-  };
-  const sensitivity = useMemo(
-    () => ({
-      current: decisionScore,
-      noResale: scoreFor({ sticker: stickerCost, offset: 0 }),
-      bestResale: scoreFor({ sticker: stickerCost, offset: bestOffset }),
-      waitSale: simulateWait
-        ? scoreFor({ sticker: stickerCostWait, offset: resaleOffset })
+  const wait = useMemo(
+    () =>
+      inputs.simulateWait ? analyzeWait(inputs, budgetContext, result) : null,
+    [inputs, budgetContext, result]
+  );
+  const simulation = useMemo(
+    () =>
+      inputs.simulateResale
+        ? runMonteCarlo(inputs, bands, budgetContext)
         : null,
-    }),
-    [
-      decisionScore,
-      stickerCost,
-      stickerCostWait,
-      resaleOffset,
-      bestOffset,
-      simulateWait,
-    ]
+    [inputs, bands, budgetContext]
   );
+  const {
+    tax,
+    taxLines,
+    stickerCost,
+    stickerCostWait,
+    adjSaleProb,
+    adjSalePrice,
+    resaleOffset,
+    financing,
+    effectiveCost,
+    totalExpectedUses,
+    costPerUse,
+    financialScore,
+    utilityScore,
+    riskScore,
+    decisionScore,
+    verdict,
+  } = result;
 
   const perUseBadge = useMemo(() => {
     if (costPerUse < 1)
@@ -756,92 +777,49 @@ function BuyOrNot() {
 
   // Actions
   const resetForm = () => {
-    setItemName("");
-    setPrice(0);
-    setTaxRatePct(13);
-    setBudgetImpact(5);
-    setNeedLevel(5);
-    setUseFrequency(5);
-    setJoyScore(5);
-    setLongevity(5);
-    setWorkRelated(false);
-    setExpectSalePrice(0);
-    setSaleProbabilityPct(50);
-    setPlatformFees(0);
-    setShipCost(0);
-    setTimeHours(1);
-    setHourlyValue(30);
-    setFriction(0);
-    setResaleAggressive(false);
-    setCondKey("like_new");
-    setDemandKey("medium");
-    setSimulateWait(false);
-    setTargetDiscountPct(10);
-    setMonthsToWait(1);
-    setMonthsOwn(12);
-    setUsesPerWeek(3);
-    setKeepOldItem(false);
-    setMinimalismStrength(6);
-    setReturnPolicy(7);
-    setWarranty(6);
-    setSpaceFit(7);
-    setAltAvailable(5);
-    setUrgency(4);
-    setWFinancial(0.45);
-    setWUtility(0.4);
-    setWRisk(0.15);
+    replaceInputs(BLANK_INPUTS);
     setActiveId(null);
+    setScenarioCurrency(null);
+    setFromLink(false);
   };
 
   const saveEntry = () => {
-    const id = activeId ?? `${Date.now()}`;
+    const now = Date.now();
+    const id = activeId ?? newEntryId();
+    const existing = entries.find((e) => e.id === id);
+    const snapshot = { at: now, decisionScore, verdict: verdict.label };
+    const outputs = {
+      decisionScore,
+      verdict: verdict.label,
+      effectiveCost,
+      resaleOffset,
+      costPerUse,
+    };
     const row: Entry = {
+      v: ENTRY_VERSION,
       id,
-      createdAt: Date.now(),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
       name: itemName || "Untitled",
-      inputs: {
-        itemName,
-        price,
-        taxRatePct,
-        budgetImpact,
-        needLevel,
-        useFrequency,
-        joyScore,
-        longevity,
-        workRelated,
-        expectSalePrice,
-        saleProbabilityPct,
-        platformFees,
-        shipCost,
-        timeHours,
-        hourlyValue,
-        friction,
-        resaleAggressive,
-        condKey,
-        demandKey,
-        simulateWait,
-        targetDiscountPct,
-        monthsToWait,
-        monthsOwn,
-        usesPerWeek,
-        keepOldItem,
-        minimalismStrength,
-        returnPolicy,
-        warranty,
-        spaceFit,
-        altAvailable,
-        urgency,
-        wFinancial,
-        wUtility,
-        wRisk,
-      },
-      outputs: {
-        decisionScore,
-        verdict: verdict.label,
-        effectiveCost,
-        resaleOffset,
-        costPerUse,
-      },
+      currency: moneyFormat.currency,
+      bands,
+      status: existing?.status ?? "considering",
+      statusDates: existing?.statusDates ?? {},
+      outcome: existing?.outcome,
+      prices: existing?.prices ?? [],
+      // The rule's price is in the settings currency; others don't cool off.
+      coolingOff: existing
+        ? withRevisit(existing.coolingOff, snapshot)
+        : moneyFormat.currency === settings.currency
+          ? startCoolingOff(settings.coolingOff, price, snapshot)
+          : undefined,
+      inputs: scored,
+      outputs,
+      revisions: appendRevision(existing?.revisions ?? [], {
+        at: now,
+        inputs: scored,
+        outputs,
+      }),
     };
     setEntries((prev) => {
       const exists = prev.find((e) => e.id === id);
@@ -849,65 +827,236 @@ function BuyOrNot() {
       return [row, ...prev];
     });
     if (!activeId) setActiveId(id);
+    setScenarioCurrency(moneyFormat.currency);
+    setFromLink(false);
   };
 
   const loadEntry = (e: Entry) => {
     setActiveId(e.id);
-    const s = e.inputs as any;
-    setItemName(s.itemName);
-    setPrice(s.price);
-    setTaxRatePct(s.taxRatePct);
-    setBudgetImpact(s.budgetImpact);
-    setNeedLevel(s.needLevel);
-    setUseFrequency(s.useFrequency);
-    setJoyScore(s.joyScore);
-    setLongevity(s.longevity);
-    setWorkRelated(s.workRelated);
-    setExpectSalePrice(s.expectSalePrice);
-    setSaleProbabilityPct(s.saleProbabilityPct);
-    setPlatformFees(s.platformFees);
-    setShipCost(s.shipCost);
-    setTimeHours(s.timeHours);
-    setHourlyValue(s.hourlyValue);
-    setFriction(s.friction);
-    setResaleAggressive(s.resaleAggressive);
-    setCondKey(s.condKey);
-    setDemandKey(s.demandKey);
-    setSimulateWait(s.simulateWait);
-    setTargetDiscountPct(s.targetDiscountPct);
-    setMonthsToWait(s.monthsToWait);
-    setMonthsOwn(s.monthsOwn);
-    setUsesPerWeek(s.usesPerWeek);
-    setKeepOldItem(s.keepOldItem);
-    setMinimalismStrength(s.minimalismStrength);
-    setReturnPolicy(s.returnPolicy);
-    setWarranty(s.warranty);
-    setSpaceFit(s.spaceFit);
-    setAltAvailable(s.altAvailable);
-    setUrgency(s.urgency);
-    setWFinancial(s.wFinancial);
-    setWUtility(s.wUtility);
-    setWRisk(s.wRisk);
+    replaceInputs(e.inputs);
+    setScenarioCurrency(e.currency);
+    setFromLink(false);
   };
 
   const deleteEntry = (id: string) =>
     setEntries((prev) => prev.filter((e) => e.id !== id));
 
+  // Revisions: restoring re-saves the old version as the newest one.
+  const [revisionsId, setRevisionsId] = useState<string | null>(null);
+  const restoreRevision = (e: Entry, rev: Revision) => {
+    const now = Date.now();
+    const restored: Entry = {
+      ...e,
+      updatedAt: now,
+      inputs: rev.inputs,
+      outputs: rev.outputs,
+      revisions: appendRevision(e.revisions, { ...rev, at: now }),
+    };
+    setEntries((prev) => prev.map((x) => (x.id === e.id ? restored : x)));
+    loadEntry(restored);
+  };
+
+  // Outcomes (see src/lib/outcomes.ts); bought entries feed the budget ledger.
+  const updateEntry = (id: string, patch: (e: Entry) => Partial<Entry>) =>
+    setEntries((prev) =>
+      prev.map((e) => (e.id === id ? { ...e, ...patch(e) } : e))
+    );
+  const setStatus = (id: string, status: EntryStatus) =>
+    updateEntry(id, (e) => ({
+      status,
+      statusDates: { ...e.statusDates, [status]: Date.now() },
+    }));
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const logOutcome = (id: string, outcome: DecisionOutcome) => {
+    updateEntry(id, () => ({ outcome }));
+    setReviewingId(null);
+  };
+  const dueForReview = entries.filter((e) =>
+    isDueForReview(e, settings.reviewAfterDays)
+  );
+  const activeEntry = entries.find((e) => e.id === activeId);
+
+  // Cooling-off: entries past their revisit date, also as notifications
+  const dueForRevisit = entries.filter((e) => isDueForRevisit(e));
+  const notified = useRef(new Set<string>());
+  useEffect(() => {
+    const notify = () => {
+      if (!("Notification" in window) || Notification.permission !== "granted")
+        return;
+      entries
+        .filter((e) => isDueForRevisit(e) && !notified.current.has(e.id))
+        .forEach((e) => {
+          notified.current.add(e.id);
+          new Notification("Time to revisit", {
+            body: `You slept on “${e.name}”. Still want it?`,
+            tag: `revisit-${e.id}`,
+          });
+        });
+    };
+    notify();
+    const timer = window.setInterval(notify, 60_000);
+    return () => window.clearInterval(timer);
+  }, [entries]);
+
+  // Price watch: saved entries re-scored at the prices logged for them
+  const [watchingId, setWatchingId] = useState<string | null>(null);
+  const priceWatches = useMemo(
+    () => new Map(entries.map((e) => [e.id, priceWatchFor(e)])),
+    [entries]
+  );
+  const nowBuy = entries.filter((e) => priceWatches.get(e.id)?.becameBuy);
+
+  // Weights fitted to the logged outcomes (see src/lib/calibration.ts)
+  const calibration = useMemo(
+    () =>
+      calibrate(
+        entries,
+        effectiveWeights({ wFinancial, wUtility, wRisk, normalizeWeights }),
+        bands
+      ),
+    [entries, wFinancial, wUtility, wRisk, normalizeWeights, bands]
+  );
+  const applyCalibration = (
+    weights: Weights,
+    calibratedBands: VerdictBand[] | null
+  ) => {
+    saveWeightProfile({ name: CALIBRATED_PROFILE, weights });
+    setInputs((prev) => ({
+      ...prev,
+      ...weights,
+      weightProfile: CALIBRATED_PROFILE,
+    }));
+    if (calibratedBands) setSetting("bands")(calibratedBands);
+  };
+
+  // Comparison (2–4 saved entries side by side)
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+  const compared = useMemo(
+    () => entries.filter((e) => compareIds.includes(e.id)),
+    [entries, compareIds]
+  );
+  const toggleCompare = (id: string) =>
+    setCompareIds((prev) =>
+      prev.includes(id)
+        ? prev.filter((x) => x !== id)
+        : prev.length < COMPARE_MAX
+          ? [...prev, id]
+          : prev
+    );
+  const canCompare =
+    compared.length >= COMPARE_MIN && compared.length <= COMPARE_MAX;
+
+  const downloadUnreadable = () =>
+    downloadText(
+      `buy-or-not-unreadable-${fileDate()}.json`,
+      JSON.stringify(unreadable, null, 2)
+    );
+
+  // Import / export (see src/lib/transfer.ts)
+  const importInput = useRef<HTMLInputElement>(null);
+  const [importPreview, setImportPreview] = useState<ImportPreview | null>(
+    null
+  );
+  const [importMessage, setImportMessage] = useState<string | null>(null);
+
+  const exportJson = () =>
+    downloadText(`buy-or-not-${fileDate()}.json`, exportEntries(entries));
+
+  const exportCsv = () =>
+    downloadText(
+      `buy-or-not-${fileDate()}.csv`,
+      exportEntriesCsv(entries),
+      "text/csv;charset=utf-8"
+    );
+
+  const onImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    const text = await file.text();
+    const parsed = /\.csv$/i.test(file.name)
+      ? parseCsvImport(text, entries, settings.currency, bands)
+      : parseImport(text, entries);
+    if (parsed.ok) {
+      setImportPreview(parsed.preview);
+      setImportMessage(null);
+    } else {
+      setImportPreview(null);
+      setImportMessage(parsed.error);
+    }
+  };
+
+  const confirmImport = (mode: ImportMode, onConflict: ConflictStrategy) => {
+    if (!importPreview) return;
+    const outcome = applyImport(
+      entries,
+      importPreview.entries,
+      mode,
+      onConflict
+    );
+    setEntries(outcome.entries);
+    if (mode === "replace") setActiveId(null);
+    setImportPreview(null);
+    setImportMessage(
+      mode === "replace"
+        ? `Replaced history with ${outcome.added} entries.`
+        : `Imported ${outcome.added} new, overwrote ${outcome.overwritten}, skipped ${outcome.skipped}.`
+    );
+  };
+
   const copySummary = async () => {
     const lines = [
       `Decision: ${verdict.label} (${decisionScore}/100)`,
+      isDefaultBands(bands) ? undefined : `Bands: ${describeBands(bands)}`,
       `Item: ${itemName || "Untitled"}`,
-      `Sticker: ${currency(stickerCost)} | Effective after resale: ${currency(
+      `Sticker: ${money(stickerCost)} | Effective after resale: ${money(
         effectiveCost
-      )} (offset ${currency(resaleOffset)})`,
-      `Per-use: ${currency(costPerUse)} (over ~${Math.round(
+      )} (trade-in ${money(resaleOffset)}${
+        result.futureResale > 0
+          ? `, resale later ${money(result.futureResale)}`
+          : ""
+      })`,
+      `Taxes: ${describeTaxes(inputs)} — ${taxRegionLabel(
+        taxRegion
+      )} (tax ${money(tax)})`,
+      financing.method !== "cash"
+        ? `Payment: ${describePayments(financing, money)} — cost of credit ${money(
+            financing.costOfCredit
+          )}`
+        : undefined,
+      result.runningCosts > 0
+        ? `Running costs: ${money(result.runningCosts)} over ${monthsOwn} mo (${recurringCosts
+            .map((c) => c.label || kindLabel(c.kind))
+            .join(", ")})`
+        : undefined,
+      `Per-use: ${money(costPerUse)} (over ~${Math.round(
         totalExpectedUses
       )} uses)`,
+      budget
+        ? `Budget: ${money(budget.remaining)} left this month after it${
+            budget.hours !== null
+              ? ` — ${budget.hours.toFixed(1)} hours of work`
+              : ""
+          }`
+        : undefined,
       `Scores — Financial ${Math.round(financialScore)}, Utility ${Math.round(
         utilityScore
       )}, Risk ${Math.round(riskScore)}`,
-      simulateWait
-        ? `Alt (wait ${monthsToWait} mo @ −${targetDiscountPct}%): ${sensitivity.waitSale}`
+      `Weights: ${weightProfile || "Custom"} — ${WEIGHT_KEYS.map((k) =>
+        pct(effectiveWeights(inputs)[k] * 100)
+      ).join(" / ")} (financial / utility / risk)`,
+      wait
+        ? `Alt (wait ${monthsToWait} mo @ −${targetDiscountPct}%): ${
+            sensitivity.waitSale
+          } — ${describeRecommendation(wait)}`
+        : undefined,
+      simulation
+        ? `Simulation: score ${Math.round(
+            simulation.decisionScore.p10
+          )}–${Math.round(simulation.decisionScore.p90)} (P10–P90), effective ${money(
+            simulation.effectiveCost.p50
+          )} median, sells in ${pct(simulation.sellRate * 100)}`
         : undefined,
     ]
       .filter(Boolean)
@@ -922,6 +1071,19 @@ function BuyOrNot() {
     }
   };
 
+  // Shown for copying by hand when the clipboard isn't available.
+  const [manualLink, setManualLink] = useState<string | null>(null);
+  const copyLink = async () => {
+    const url = shareUrl(scored, moneyFormat.currency);
+    try {
+      await navigator.clipboard.writeText(url);
+      setManualLink(null);
+      alert("Link copied — it opens this exact scenario ✨");
+    } catch {
+      setManualLink(url);
+    }
+  };
+
   // ---------- Render ----------
   return (
     <div className="max-w-content mx-auto p-6">
@@ -953,10 +1115,59 @@ function BuyOrNot() {
             <button className="btn-ghost" onClick={resetForm}>
               New entry
             </button>
+            <button
+              className="btn-ghost"
+              onClick={() => setHistory(undo)}
+              disabled={history.past.length === 0}
+              title="Undo the last form edit"
+            >
+              Undo
+            </button>
+            <button
+              className="btn-ghost"
+              onClick={() => setHistory(redo)}
+              disabled={history.future.length === 0}
+              title="Redo"
+            >
+              Redo
+            </button>
             <button className="btn-ghost" onClick={copySummary}>
               Copy summary
             </button>
+            <button className="btn-ghost" onClick={copyLink}>
+              Copy link
+            </button>
           </div>
+          {manualLink && (
+            <div className="rounded-xl border border-slate-200 bg-slate-50 p-3 text-sm space-y-2">
+              <div className="flex items-center justify-between">
+                <span className="font-medium text-slate-700">
+                  Could not copy automatically — copy the link below.
+                </span>
+                <button
+                  type="button"
+                  className="text-xs underline text-slate-600"
+                  onClick={() => setManualLink(null)}
+                >
+                  Close
+                </button>
+              </div>
+              <input
+                readOnly
+                className="w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0 text-xs"
+                value={manualLink}
+                onFocus={(e) => e.target.select()}
+                aria-label="Scenario link"
+                autoFocus
+              />
+            </div>
+          )}
+          {fromLink && (
+            <div className="rounded-xl border border-blue-200 bg-blue-50 p-3 text-sm text-blue-800">
+              Opened from a shared link. Nothing is added to your history until
+              you choose <span className="font-medium">Save entry</span>.
+            </div>
+          )}
 
           <Section title="Item" subtitle="Fill in your basics">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
@@ -967,43 +1178,68 @@ function BuyOrNot() {
                 <input
                   className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
                   value={itemName}
-                  onChange={(e) => setItemName(e.target.value)}
+                  onChange={(e) => set("itemName")(e.target.value)}
                   placeholder="e.g., Sony WH-1000XM5"
                 />
               </label>
               <LabeledNumber
-                label="Price (pre-tax)"
+                label={`Price (pre-tax, ${moneyFormat.currency})`}
                 value={price}
-                onChange={setPrice}
+                onChange={set("price")}
                 min={0}
               />
             </div>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
-              <LabeledNumber
-                label="Sales tax %"
-                value={taxRatePct}
-                onChange={setTaxRatePct}
-                min={0}
-                max={30}
-                step={0.5}
-              />
+              <div className="md:col-span-2">
+                <Select
+                  label="Tax region"
+                  value={taxRegion}
+                  onChange={set("taxRegion")}
+                  options={TAX_REGION_OPTIONS}
+                />
+              </div>
+              {taxRegion === CUSTOM_TAX_REGION && (
+                <LabeledNumber
+                  label="Sales tax %"
+                  value={taxRatePct}
+                  onChange={set("taxRatePct")}
+                  min={0}
+                  max={30}
+                  step={0.5}
+                />
+              )}
               <div className="flex items-end">
                 <div className="text-sm text-slate-600">
                   Sticker (now):{" "}
-                  <span className="font-medium">{currency(stickerCost)}</span>
+                  <span className="font-medium">{money(stickerCost)}</span>
+                  <div className="text-xs text-slate-500">
+                    {money(price)}
+                    {fees.map((f, i) => (
+                      <span key={i}>
+                        {" "}
+                        + {f.label || "Fee"} {money(f.amount)}
+                      </span>
+                    ))}
+                    {taxLines.map((l) => (
+                      <span key={l.label}>
+                        {" "}
+                        + {l.label} {l.ratePct}% {money(l.amount)}
+                      </span>
+                    ))}
+                  </div>
                 </div>
               </div>
               <Toggle
                 label="Simulate waiting for a sale"
                 checked={simulateWait}
-                onChange={setSimulateWait}
+                onChange={set("simulateWait")}
               />
               {simulateWait && (
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-3 md:col-span-4">
                   <Slider
                     label="Target price drop"
                     value={targetDiscountPct}
-                    onChange={setTargetDiscountPct}
+                    onChange={set("targetDiscountPct")}
                     min={0}
                     max={40}
                     step={5}
@@ -1012,39 +1248,176 @@ function BuyOrNot() {
                   <LabeledNumber
                     label="Months to wait"
                     value={monthsToWait}
-                    onChange={setMonthsToWait}
+                    onChange={(v) =>
+                      set("monthsToWait")(
+                        Math.max(0, Math.min(MAX_PLANNED_WAIT_MONTHS, v))
+                      )
+                    }
                     min={0}
-                    max={24}
+                    max={MAX_PLANNED_WAIT_MONTHS}
                     step={1}
                   />
                   <div className="flex items-end text-sm text-slate-600">
                     Sticker if on sale:{" "}
                     <span className="font-medium ml-1">
-                      {currency(stickerCostWait)}
+                      {money(stickerCostWait)}
                     </span>
                   </div>
+                  <Slider
+                    label="Chance the sale happens"
+                    value={saleChancePct}
+                    onChange={set("saleChancePct")}
+                    min={0}
+                    max={100}
+                    step={5}
+                    suffixFn={(v) => `${v}% within ${monthsToWait} mo`}
+                  />
+                  <LabeledNumber
+                    label="Price drift %/yr"
+                    value={priceDriftPctPerYear}
+                    onChange={set("priceDriftPctPerYear")}
+                    min={-50}
+                    max={50}
+                    step={1}
+                    hint="negative = getting cheaper"
+                  />
+                  {wait && (
+                    <div className="bg-slate-50 rounded-xl p-3 text-sm md:row-span-2">
+                      <div className="font-semibold">
+                        {describeRecommendation(wait)}
+                      </div>
+                      <div className="text-xs text-slate-500 mt-1 space-y-0.5">
+                        <div>
+                          Waiting {wait.planned.months} mo: sale chance{" "}
+                          {pct(wait.planned.saleChance * 100)}, expected sticker{" "}
+                          {money(wait.planned.expectedSticker)}
+                        </div>
+                        <div>
+                          ~{Math.round(wait.planned.lostUses)} uses missed (
+                          {money(wait.planned.lostUseValue)}), urgency −
+                          {Math.round(wait.planned.urgencyPenalty)} pts
+                        </div>
+                        <div>
+                          Score {wait.planned.score} vs {decisionScore} now
+                          {wait.best.months !== wait.planned.months &&
+                            ` • best: ${wait.best.months} mo → ${wait.best.score}`}
+                        </div>
+                      </div>
+                    </div>
+                  )}
                 </div>
               )}
             </div>
+            <FeesEditor fees={fees} onChange={set("fees")} symbol={symbol} />
+          </Section>
+
+          <Section title="Payment" subtitle="Cash, card, financing or BNPL">
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div className="md:col-span-2">
+                <Select
+                  label="Payment method"
+                  value={paymentMethod}
+                  onChange={set("paymentMethod")}
+                  options={PAYMENT_METHOD_OPTIONS}
+                />
+              </div>
+              {paymentMethod !== "cash" && (
+                <>
+                  <LabeledNumber
+                    label="APR %"
+                    value={financeAprPct}
+                    onChange={set("financeAprPct")}
+                    step={0.1}
+                    max={100}
+                    hint={
+                      paymentMethod === "store"
+                        ? "0 for promo plans"
+                        : undefined
+                    }
+                  />
+                  {paymentMethod === "bnpl" ? (
+                    <LabeledNumber
+                      label="Installments"
+                      value={bnplInstallments}
+                      onChange={set("bnplInstallments")}
+                      min={1}
+                      max={52}
+                      hint="every 2 weeks"
+                    />
+                  ) : (
+                    <LabeledNumber
+                      label={
+                        paymentMethod === "card"
+                          ? "Months to pay off"
+                          : "Term (months)"
+                      }
+                      value={financeMonths}
+                      onChange={set("financeMonths")}
+                      min={1}
+                      max={120}
+                    />
+                  )}
+                  <LabeledNumber
+                    label={`Fees (${symbol})`}
+                    value={financeFees}
+                    onChange={set("financeFees")}
+                    step={0.01}
+                    hint="setup, service, late"
+                  />
+                </>
+              )}
+            </div>
+            {paymentMethod !== "cash" && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Payments:{" "}
+                  <span className="font-semibold">
+                    {describePayments(financing, money)}
+                  </span>
+                </div>
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Cost of credit:{" "}
+                  <span className="font-semibold">
+                    {money(financing.costOfCredit)}
+                  </span>{" "}
+                  <span className="text-slate-500">
+                    (interest {money(financing.interest)} + fees{" "}
+                    {money(financing.fees)})
+                  </span>
+                </div>
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Total paid:{" "}
+                  <span className="font-semibold">
+                    {money(stickerCost + financing.costOfCredit)}
+                  </span>
+                </div>
+              </div>
+            )}
           </Section>
 
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
             <Section
               title="Sell-to-Offset"
-              subtitle="Estimate what you’ll recoup by selling the old thing"
+              subtitle="Trade in or sell the item this replaces, now"
             >
               <div className="grid grid-cols-1 gap-4">
+                {keepOldItem && (
+                  <p className="text-xs text-red-600">
+                    You’re keeping the old item (see Risk), so there’s nothing
+                    to trade in — this offset counts as 0.
+                  </p>
+                )}
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                   <LabeledNumber
                     label="Expected sale price (before presets)"
                     value={expectSalePrice}
-                    onChange={setExpectSalePrice}
+                    onChange={set("expectSalePrice")}
                     min={0}
                   />
                   <LabeledNumber
                     label="Base probability of sale"
                     value={saleProbabilityPct}
-                    onChange={setSaleProbabilityPct}
+                    onChange={set("saleProbabilityPct")}
                     min={0}
                     max={100}
                   />
@@ -1053,7 +1426,7 @@ function BuyOrNot() {
                   <Select
                     label="Condition"
                     value={condKey}
-                    onChange={setCondKey}
+                    onChange={set("condKey")}
                     options={
                       CONDITION_PRESETS as unknown as {
                         key: typeof condKey;
@@ -1065,7 +1438,7 @@ function BuyOrNot() {
                   <Select
                     label="Demand"
                     value={demandKey}
-                    onChange={setDemandKey}
+                    onChange={set("demandKey")}
                     options={
                       DEMAND_PRESETS as unknown as {
                         key: typeof demandKey;
@@ -1082,7 +1455,7 @@ function BuyOrNot() {
                     <div>
                       Adj sale price:{" "}
                       <span className="font-semibold">
-                        {currency(adjSalePrice)}
+                        {money(adjSalePrice)}
                       </span>
                     </div>
                   </div>
@@ -1091,53 +1464,97 @@ function BuyOrNot() {
                   <LabeledNumber
                     label="Platform/marketplace fees"
                     value={platformFees}
-                    onChange={setPlatformFees}
+                    onChange={set("platformFees")}
                     min={0}
                   />
                   <LabeledNumber
                     label="Shipping & packaging"
                     value={shipCost}
-                    onChange={setShipCost}
+                    onChange={set("shipCost")}
                     min={0}
                   />
                   <LabeledNumber
                     label="Your time (hours)"
                     value={timeHours}
-                    onChange={setTimeHours}
+                    onChange={set("timeHours")}
                     min={0}
                     step={0.5}
                   />
                   <LabeledNumber
-                    label="Your time value ($/hr)"
+                    label={`Your time value (${symbol}/hr)`}
                     value={hourlyValue}
-                    onChange={setHourlyValue}
+                    onChange={set("hourlyValue")}
                     min={0}
                   />
                 </div>
                 <LabeledNumber
                   label="Friction/misc cost"
                   value={friction}
-                  onChange={setFriction}
+                  onChange={set("friction")}
                   min={0}
                   hint="Gas, cleaning, odds & ends"
                 />
                 <Toggle
                   label="Aggressive resale influence"
                   checked={resaleAggressive}
-                  onChange={setResaleAggressive}
+                  onChange={set("resaleAggressive")}
                   hint="If on, strong resale also nudges Utility/Joy."
                 />
+                <Toggle
+                  label="Simulate uncertainty"
+                  checked={simulateResale}
+                  onChange={set("simulateResale")}
+                  hint={`Monte Carlo: ${SIMULATION_DRAWS.toLocaleString()} draws, including not selling at all.`}
+                />
+                {simulateResale && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    <Slider
+                      label="Sale price spread"
+                      value={salePriceSpreadPct}
+                      onChange={set("salePriceSpreadPct")}
+                      min={0}
+                      max={100}
+                      step={5}
+                      suffixFn={(v) => `±${v}%`}
+                    />
+                    <Slider
+                      label="Probability spread"
+                      value={saleProbSpreadPct}
+                      onChange={set("saleProbSpreadPct")}
+                      min={0}
+                      max={100}
+                      step={5}
+                      suffixFn={(v) => `±${v}%`}
+                    />
+                    <Slider
+                      label="Selling time spread"
+                      value={timeSpreadPct}
+                      onChange={set("timeSpreadPct")}
+                      min={0}
+                      max={100}
+                      step={5}
+                      suffixFn={(v) => `±${v}%`}
+                    />
+                    <Slider
+                      label="Fees spread"
+                      value={feesSpreadPct}
+                      onChange={set("feesSpreadPct")}
+                      min={0}
+                      max={100}
+                      step={5}
+                      suffixFn={(v) => `±${v}%`}
+                    />
+                  </div>
+                )}
                 <div className="bg-slate-50 rounded-xl p-3 text-sm grid grid-cols-1 md:grid-cols-2 gap-2">
                   <div>
-                    Resale offset:{" "}
-                    <span className="font-semibold">
-                      {currency(resaleOffset)}
-                    </span>
+                    Trade-in offset:{" "}
+                    <span className="font-semibold">{money(resaleOffset)}</span>
                   </div>
                   <div>
                     Effective cost after offset:{" "}
                     <span className="font-semibold">
-                      {currency(effectiveCost)}
+                      {money(effectiveCost)}
                     </span>
                   </div>
                 </div>
@@ -1152,27 +1569,27 @@ function BuyOrNot() {
                 <Slider
                   label="Need level"
                   value={needLevel}
-                  onChange={setNeedLevel}
+                  onChange={set("needLevel")}
                 />
                 <Slider
                   label="Use frequency"
                   value={useFrequency}
-                  onChange={setUseFrequency}
+                  onChange={set("useFrequency")}
                 />
                 <Slider
                   label="Joy/delight"
                   value={joyScore}
-                  onChange={setJoyScore}
+                  onChange={set("joyScore")}
                 />
                 <Slider
                   label="Longevity (subjective)"
                   value={longevity}
-                  onChange={setLongevity}
+                  onChange={set("longevity")}
                 />
                 <Toggle
                   label="Work related (productivity/earning)"
                   checked={workRelated}
-                  onChange={setWorkRelated}
+                  onChange={set("workRelated")}
                 />
                 <div className="bg-slate-50 rounded-xl p-3 text-sm">
                   Utility/Joy sub-score:{" "}
@@ -1191,38 +1608,38 @@ function BuyOrNot() {
                 <Slider
                   label="Return policy"
                   value={returnPolicy}
-                  onChange={setReturnPolicy}
+                  onChange={set("returnPolicy")}
                 />
                 <Slider
                   label="Warranty/support"
                   value={warranty}
-                  onChange={setWarranty}
+                  onChange={set("warranty")}
                 />
                 <Slider
                   label="Space fit"
                   value={spaceFit}
-                  onChange={setSpaceFit}
+                  onChange={set("spaceFit")}
                 />
                 <Slider
                   label="Good alternatives exist"
                   value={altAvailable}
-                  onChange={setAltAvailable}
+                  onChange={set("altAvailable")}
                 />
                 <Slider
                   label="Urgency/time sensitivity"
                   value={urgency}
-                  onChange={setUrgency}
+                  onChange={set("urgency")}
                 />
                 <Toggle
                   label="Keeping the old item (adds clutter)"
                   checked={keepOldItem}
-                  onChange={setKeepOldItem}
+                  onChange={set("keepOldItem")}
                 />
                 {keepOldItem && (
                   <Slider
                     label="Minimalism nudge strength (penalty)"
                     value={minimalismStrength}
-                    onChange={setMinimalismStrength}
+                    onChange={set("minimalismStrength")}
                     min={0}
                     max={12}
                     step={1}
@@ -1237,13 +1654,138 @@ function BuyOrNot() {
             </Section>
           </div>
 
+          <Section
+            title="Resell the New Item Later"
+            subtitle={`What it should be worth after ${monthsOwn} months of ownership`}
+          >
+            <div className="space-y-4">
+              <Toggle
+                label="Plan to resell it"
+                checked={resaleNewItem}
+                onChange={set("resaleNewItem")}
+                hint="Adds its expected resale to the effective cost."
+              />
+              {resaleNewItem && (
+                <>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <Select
+                      label="Category"
+                      value={categoryKey}
+                      onChange={set("categoryKey")}
+                      options={
+                        CATEGORY_PRESETS as unknown as {
+                          key: typeof categoryKey;
+                          label: string;
+                        }[]
+                      }
+                      hint="Depreciation curve"
+                    />
+                    <Select
+                      label="Condition when resold"
+                      value={resaleCondKey}
+                      onChange={set("resaleCondKey")}
+                      options={
+                        CONDITION_PRESETS as unknown as {
+                          key: typeof resaleCondKey;
+                          label: string;
+                        }[]
+                      }
+                    />
+                    <LabeledNumber
+                      label="Chance of reselling %"
+                      value={newResaleProbPct}
+                      onChange={set("newResaleProbPct")}
+                      max={100}
+                    />
+                    <LabeledNumber
+                      label="Fees & costs %"
+                      value={newResaleFeesPct}
+                      onChange={set("newResaleFeesPct")}
+                      max={100}
+                    />
+                  </div>
+                  <div className="bg-slate-50 rounded-xl p-3 text-sm grid grid-cols-1 md:grid-cols-2 gap-2">
+                    <div>
+                      Worth after {monthsOwn} mo:{" "}
+                      <span className="font-semibold">
+                        {money(result.futureResaleValue)}
+                      </span>{" "}
+                      <span className="text-slate-500">
+                        (
+                        {pct(
+                          (result.futureResaleValue / Math.max(1, price)) * 100
+                        )}{" "}
+                        of price)
+                      </span>
+                    </div>
+                    <div>
+                      Expected resale offset:{" "}
+                      <span className="font-semibold">
+                        {money(result.futureResale)}
+                      </span>
+                    </div>
+                  </div>
+                </>
+              )}
+            </div>
+          </Section>
+
+          <Section
+            title="Custom Criteria"
+            subtitle="Your own factors, rated 0–10 within a pillar"
+          >
+            <CriteriaEditor
+              criteria={inputs.criteria}
+              onChange={set("criteria")}
+            />
+          </Section>
+
           <Section title="Budget Impact & Per-Use">
             <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
-              <Slider
-                label="Budget pain (higher = hurts)"
-                value={budgetImpact}
-                onChange={setBudgetImpact}
-              />
+              {budget && !budgetManual ? (
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  <div className="flex items-baseline justify-between">
+                    <span className="font-medium text-slate-700">
+                      Budget pain (from your budget)
+                    </span>
+                    <span className="font-semibold">{budget.pain}/10</span>
+                  </div>
+                  <div className="text-xs text-slate-500 mt-1">
+                    {money(budget.outlay)} of the {money(budget.available)} left
+                    this month.
+                  </div>
+                  <button
+                    type="button"
+                    className="text-xs underline text-slate-600 mt-2"
+                    onClick={() =>
+                      setInputs((prev) => ({
+                        ...prev,
+                        budgetManual: true,
+                        budgetImpact: Math.round(budget.pain),
+                      }))
+                    }
+                  >
+                    Set by hand
+                  </button>
+                </div>
+              ) : (
+                <div>
+                  <Slider
+                    label="Budget pain (higher = hurts)"
+                    value={budgetImpact}
+                    onChange={set("budgetImpact")}
+                  />
+                  {budget && (
+                    <button
+                      type="button"
+                      className="text-xs underline text-slate-600 mt-2"
+                      onClick={() => set("budgetManual")(false)}
+                    >
+                      Use my budget ({budget.pain}/10)
+                    </button>
+                  )}
+                </div>
+              )}
               <div className="bg-slate-50 rounded-xl p-3 text-sm flex items-center justify-between">
                 <div>
                   <div>
@@ -1258,16 +1800,17 @@ function BuyOrNot() {
                 </div>
                 <div className="text-right">
                   <div>
-                    Tax:{" "}
-                    <span className="font-medium">
-                      {currency(taxFor(price))}
-                    </span>
+                    Tax: <span className="font-medium">{money(tax)}</span>
                   </div>
+                  {result.fees > 0 && (
+                    <div>
+                      Fees:{" "}
+                      <span className="font-medium">{money(result.fees)}</span>
+                    </div>
+                  )}
                   <div>
                     Effective cost:{" "}
-                    <span className="font-medium">
-                      {currency(effectiveCost)}
-                    </span>
+                    <span className="font-medium">{money(effectiveCost)}</span>
                   </div>
                 </div>
               </div>
@@ -1276,63 +1819,128 @@ function BuyOrNot() {
                   <LabeledNumber
                     label="Months you’ll own it"
                     value={monthsOwn}
-                    onChange={setMonthsOwn}
+                    onChange={set("monthsOwn")}
                     min={1}
                     max={120}
                   />
                   <LabeledNumber
                     label="Uses per week"
                     value={usesPerWeek}
-                    onChange={setUsesPerWeek}
+                    onChange={set("usesPerWeek")}
                     min={1}
                     max={21}
                   />
                 </div>
                 <div className="mt-2">
                   Cost per use (after resale):{" "}
-                  <span className="font-semibold">{currency(costPerUse)}</span>
+                  <span className="font-semibold">{money(costPerUse)}</span>
                 </div>
               </div>
             </div>
+            {budget && (
+              <div className="mt-4 bg-slate-50 rounded-xl p-3 text-sm grid grid-cols-2 md:grid-cols-4 gap-2">
+                <div>
+                  Bought this month:{" "}
+                  <span className="font-semibold">{money(budget.spent)}</span>
+                </div>
+                <div>
+                  {financing.method === "cash"
+                    ? "This purchase:"
+                    : "This month’s payment:"}{" "}
+                  <span className="font-semibold">{money(budget.outlay)}</span>
+                </div>
+                <div>
+                  Left after it:{" "}
+                  <span
+                    className={`font-semibold ${
+                      budget.remaining < 0 ? "text-red-600" : ""
+                    }`}
+                  >
+                    {money(budget.remaining)}
+                  </span>
+                </div>
+                {budget.hours !== null && (
+                  <div>
+                    Hours of work:{" "}
+                    <span className="font-semibold">
+                      {budget.hours.toFixed(1)} h
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+            {settings.budget.enabled && !budget && (
+              <p className="mt-2 text-xs text-slate-500">
+                Your budget is in {settings.currency}; this entry is in{" "}
+                {moneyFormat.currency}, so budget pain is set by hand.
+              </p>
+            )}
+          </Section>
+
+          <Section
+            title="Total Cost of Ownership"
+            subtitle={`Recurring costs over ${monthsOwn} months (~${Math.round(
+              totalExpectedUses
+            )} uses)`}
+          >
+            <RecurringCostsEditor
+              costs={recurringCosts}
+              onChange={set("recurringCosts")}
+              months={monthsOwn}
+              uses={totalExpectedUses}
+              money={money}
+            />
+            {recurringCosts.length > 0 && (
+              <div className="mt-4 grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Running costs:{" "}
+                  <span className="font-semibold">
+                    {money(result.runningCosts)}
+                  </span>
+                </div>
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Purchase + running:{" "}
+                  <span className="font-semibold">
+                    {money(stickerCost + result.runningCosts)}
+                  </span>
+                </div>
+                <div className="bg-slate-50 rounded-xl p-3 text-sm">
+                  Running share of cost per use:{" "}
+                  <span className="font-semibold">
+                    {money(result.runningCosts / totalExpectedUses)}
+                  </span>
+                </div>
+              </div>
+            )}
           </Section>
 
           <Section
             title="Weights & Sensitivity"
             subtitle="Tune how much each pillar matters"
           >
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <LabeledNumber
-                label="Weight: Financial"
-                value={wFinancial}
-                onChange={setWFinancial}
-                min={0}
-                max={1}
-                step={0.05}
-              />
-              <LabeledNumber
-                label="Weight: Utility/Joy"
-                value={wUtility}
-                onChange={setWUtility}
-                min={0}
-                max={1}
-                step={0.05}
-              />
-              <LabeledNumber
-                label="Weight: Risk/Logistics"
-                value={wRisk}
-                onChange={setWRisk}
-                min={0}
-                max={1}
-                step={0.05}
+            <WeightsEditor
+              value={{
+                wFinancial,
+                wUtility,
+                wRisk,
+                normalizeWeights,
+                weightProfile,
+                coefficients: inputs.coefficients,
+              }}
+              profiles={weightProfiles}
+              onChange={(patch) => setInputs((prev) => ({ ...prev, ...patch }))}
+              onSaveProfile={saveWeightProfile}
+              onDeleteProfile={deleteWeightProfile}
+            />
+            <div className="mt-4">
+              <CalibrationPanel
+                calibration={calibration}
+                reviewed={
+                  entries.filter((e) => outcomeTarget(e) !== null).length
+                }
+                onApply={applyCalibration}
               />
             </div>
-            <p
-              className={`text-xs mt-2 ${
-                Math.abs(sumW - 1) < 0.01 ? "text-slate-500" : "text-red-600"
-              }`}
-            >
-              Weights should sum to ~1. Current: {sumW.toFixed(2)}
-            </p>
             <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4">
               <div className="bg-slate-50 rounded-xl p-3 text-sm">
                 Score now:{" "}
@@ -1353,12 +1961,164 @@ function BuyOrNot() {
                 </div>
               )}
             </div>
+            <div className="mt-4">
+              <div className="eyebrow mb-2">What moves the score most</div>
+              <TornadoChart rows={tornado} base={result.decisionScore} />
+            </div>
           </Section>
 
+          {comparing && canCompare && (
+            <Section
+              title="Compare"
+              subtitle="Best value per row in green, differing inputs in yellow"
+            >
+              <ComparisonView
+                entries={compared}
+                locale={settings.locale}
+                onClose={() => setComparing(false)}
+              />
+            </Section>
+          )}
+
           <Section
             title="History"
             subtitle="Your saved purchase ideas (stored in this browser)"
           >
+            {entries.length >= COMPARE_MIN && (
+              <div className="flex items-center gap-3 text-sm">
+                <button
+                  className="btn-primary"
+                  disabled={!canCompare}
+                  onClick={() => setComparing(true)}
+                >
+                  Compare ({compared.length})
+                </button>
+                <span className="text-xs text-slate-500">
+                  Tick {COMPARE_MIN}–{COMPARE_MAX} entries below to line them
+                  up.
+                </span>
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              <button
+                className="btn-ghost"
+                onClick={exportJson}
+                disabled={entries.length === 0}
+              >
+                Export JSON
+              </button>
+              <button
+                className="btn-ghost"
+                onClick={exportCsv}
+                disabled={entries.length === 0}
+              >
+                Export CSV
+              </button>
+              <button
+                className="btn-ghost"
+                onClick={() => importInput.current?.click()}
+              >
+                Import JSON / CSV
+              </button>
+              <input
+                ref={importInput}
+                type="file"
+                accept="application/json,.json,text/csv,.csv"
+                className="hidden"
+                onChange={onImportFile}
+              />
+            </div>
+            {importMessage && (
+              <p className="text-xs text-slate-500">{importMessage}</p>
+            )}
+            {importPreview && (
+              <ImportPanel
+                preview={importPreview}
+                currentCount={entries.length}
+                locale={settings.locale}
+                onApply={confirmImport}
+                onCancel={() => setImportPreview(null)}
+              />
+            )}
+            {unreadable.length > 0 && (
+              <div className="rounded-xl border border-yellow-200 bg-yellow-50 p-3 text-sm flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium text-yellow-800">
+                    {unreadable.length}{" "}
+                    {unreadable.length === 1 ? "entry" : "entries"} could not be
+                    read
+                  </div>
+                  <div className="text-xs text-yellow-700">
+                    They were set aside, not deleted. Download them to fix by
+                    hand, or discard them.
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <button className="btn-ghost" onClick={downloadUnreadable}>
+                    Download raw
+                  </button>
+                  <button
+                    className="btn-danger"
+                    onClick={() => setUnreadable([])}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            )}
+            {dueForRevisit.length > 0 && (
+              <div className="rounded-xl border border-yellow-200 bg-yellow-50 p-3 text-sm flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium text-yellow-800">
+                    Slept on it: {dueForRevisit.map((e) => e.name).join(", ")}
+                  </div>
+                  <div className="text-xs text-yellow-700">
+                    Load, re-check the inputs and save to record how the score
+                    changed since the first look.
+                  </div>
+                </div>
+                <button
+                  className="btn-ghost"
+                  onClick={() => loadEntry(dueForRevisit[0])}
+                >
+                  Revisit “{dueForRevisit[0].name}”
+                </button>
+              </div>
+            )}
+            {nowBuy.length > 0 && (
+              <div className="rounded-xl border border-green-200 bg-green-50 p-3 text-sm">
+                <div className="font-medium text-green-800">
+                  Price drop: {nowBuy.map((e) => e.name).join(", ")}{" "}
+                  {nowBuy.length === 1 ? "is" : "are"} now a Buy
+                </div>
+                <div className="text-xs text-green-700">
+                  Re-scored at the latest logged price.
+                </div>
+              </div>
+            )}
+            {dueForReview.length > 0 && (
+              <div className="rounded-xl border border-blue-200 bg-blue-50 p-3 text-sm flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div>
+                  <div className="font-medium text-blue-800">
+                    {dueForReview.length}{" "}
+                    {dueForReview.length === 1
+                      ? "decision is"
+                      : "decisions are"}{" "}
+                    ready for a look back
+                  </div>
+                  <div className="text-xs text-blue-700">
+                    It’s been {settings.reviewAfterDays}+ days. Log how it
+                    actually went to check the prediction.
+                  </div>
+                </div>
+                <button
+                  className="btn-ghost"
+                  onClick={() => setReviewingId(dueForReview[0].id)}
+                >
+                  Review “{dueForReview[0].name}”
+                </button>
+              </div>
+            )}
             {entries.length === 0 ? (
               <p className="text-sm text-slate-500">
                 No entries yet. Tune something above and hit{" "}
@@ -1366,52 +2126,270 @@ function BuyOrNot() {
               </p>
             ) : (
               <div className="space-y-2">
-                {entries.map((e) => (
-                  <div
-                    key={e.id}
-                    className={`flex flex-col md:flex-row md:items-center justify-between gap-2 border rounded-xl p-3 ${
-                      activeId === e.id
-                        ? "border-slate-900"
-                        : "border-slate-200"
-                    }`}
-                  >
-                    <div className="flex-1">
-                      <div className="text-sm font-medium">{e.name}</div>
-                      <div className="text-xs text-slate-500">
-                        {new Date(e.createdAt).toLocaleString()} •{" "}
-                        {e.outputs.verdict} • {e.outputs.decisionScore}/100 •
-                        Eff: {currency(e.outputs.effectiveCost)}
-                      </div>
-                    </div>
-                    <div className="flex gap-2">
-                      <button
-                        className="btn-ghost"
-                        onClick={() => loadEntry(e)}
-                      >
-                        Load
-                      </button>
-                      <button
-                        className="btn-ghost"
-                        onClick={() => {
-                          setItemName(e.inputs.itemName);
-                          setActiveId(e.id);
-                        }}
-                      >
-                        Rename via Item
-                      </button>
-                      <button
-                        className="btn-danger"
-                        onClick={() => deleteEntry(e.id)}
+                {entries.map((e) => {
+                  const actual = actualCostPerUse(e);
+                  const right = verdictWasRight(e);
+                  const decidedAt = e.statusDates[e.status];
+                  const watch = priceWatches.get(e.id) ?? null;
+                  return (
+                    <div key={e.id} className="space-y-2">
+                      <div
+                        className={`flex flex-col md:flex-row md:items-center justify-between gap-2 border rounded-xl p-3 ${
+                          activeId === e.id
+                            ? "border-slate-900"
+                            : "border-slate-200"
+                        } ${watch?.targetReached ? "bg-green-50" : ""}`}
                       >
-                        Delete
-                      </button>
+                        <input
+                          type="checkbox"
+                          className="rounded border-slate-300"
+                          aria-label={`Compare ${e.name}`}
+                          checked={compareIds.includes(e.id)}
+                          disabled={
+                            !compareIds.includes(e.id) &&
+                            compareIds.length >= COMPARE_MAX
+                          }
+                          onChange={() => toggleCompare(e.id)}
+                        />
+                        <div className="flex-1">
+                          <div className="text-sm font-medium">{e.name}</div>
+                          <div className="text-xs text-slate-500">
+                            {new Date(e.createdAt).toLocaleString()} •{" "}
+                            {e.revisions.length > 1 &&
+                              `edited ${new Date(
+                                e.updatedAt
+                              ).toLocaleString()} • `}
+                            {e.outputs.decisionScore}/100 • Eff:{" "}
+                            {entryMoney(e)(e.outputs.effectiveCost)}
+                          </div>
+                          <div className="mt-1 flex flex-wrap items-center gap-2">
+                            <Pill
+                              tone={toneForLabel(e.bands, e.outputs.verdict)}
+                            >
+                              {e.outputs.verdict}
+                              {isProvisional(e) && " (provisional)"}
+                            </Pill>
+                            {isProvisional(e) && (
+                              <Chip>
+                                Revisit{" "}
+                                {new Date(
+                                  e.coolingOff.until
+                                ).toLocaleDateString()}
+                              </Chip>
+                            )}
+                            {e.coolingOff?.revisit && (
+                              <Chip>
+                                First look {e.coolingOff.first.decisionScore} →
+                                revisit {e.coolingOff.revisit.decisionScore} (
+                                {signed(
+                                  e.coolingOff.revisit.decisionScore -
+                                    e.coolingOff.first.decisionScore
+                                )}
+                                )
+                              </Chip>
+                            )}
+                            {e.status !== "considering" &&
+                              decidedAt !== undefined && (
+                                <Chip>
+                                  {statusLabel(e.status)}{" "}
+                                  {new Date(decidedAt).toLocaleDateString()}
+                                </Chip>
+                              )}
+                            {watch?.targetReached && (
+                              <Pill tone="green">
+                                Target reached (
+                                {entryMoney(e)(watch.lowest.price)})
+                              </Pill>
+                            )}
+                            {watch?.becameBuy && (
+                              <Pill tone={watch.atLatest.verdict.tone}>
+                                Now: {watch.atLatest.verdict.label} at{" "}
+                                {entryMoney(e)(watch.latest.price)}
+                              </Pill>
+                            )}
+                            {right !== null && (
+                              <Pill tone={right ? "green" : "red"}>
+                                {right
+                                  ? "Verdict was right"
+                                  : "Verdict was off"}
+                              </Pill>
+                            )}
+                            {!sameBands(e.bands, bands) && (
+                              <span
+                                className="text-xs text-slate-500"
+                                title={describeBands(e.bands)}
+                              >
+                                decided with other bands
+                              </span>
+                            )}
+                          </div>
+                          {e.outcome && (
+                            <div className="mt-1 text-xs text-slate-600">
+                              {actual !== null && (
+                                <>
+                                  Per-use: predicted{" "}
+                                  {entryMoney(e)(e.outputs.costPerUse)} → actual{" "}
+                                  <span className="font-medium">
+                                    {entryMoney(e)(actual)}
+                                  </span>{" "}
+                                  •{" "}
+                                </>
+                              )}
+                              Satisfaction {e.outcome.satisfaction}/10
+                              {e.outcome.regret ? " • regretted" : ""}
+                            </div>
+                          )}
+                        </div>
+                        <div className="w-36">
+                          <Select
+                            label="Status"
+                            value={e.status}
+                            onChange={(status) => setStatus(e.id, status)}
+                            options={STATUS_OPTIONS}
+                          />
+                        </div>
+                        <div className="flex gap-2">
+                          <button
+                            className="btn-ghost"
+                            onClick={() => loadEntry(e)}
+                          >
+                            Load
+                          </button>
+                          <button
+                            className="btn-ghost"
+                            onClick={() => {
+                              set("itemName")(e.inputs.itemName);
+                              setActiveId(e.id);
+                            }}
+                          >
+                            Rename via Item
+                          </button>
+                          <button
+                            className="btn-ghost"
+                            onClick={() =>
+                              setWatchingId(watchingId === e.id ? null : e.id)
+                            }
+                          >
+                            Prices
+                            {e.prices.length > 0 && ` (${e.prices.length})`}
+                          </button>
+                          <button
+                            className="btn-ghost"
+                            onClick={() =>
+                              setRevisionsId(revisionsId === e.id ? null : e.id)
+                            }
+                          >
+                            Revisions ({e.revisions.length})
+                          </button>
+                          {e.status !== "considering" && (
+                            <button
+                              className="btn-ghost"
+                              onClick={() => setReviewingId(e.id)}
+                            >
+                              {e.outcome ? "Edit review" : "Review"}
+                            </button>
+                          )}
+                          <button
+                            className="btn-danger"
+                            onClick={() => deleteEntry(e.id)}
+                          >
+                            Delete
+                          </button>
+                        </div>
+                      </div>
+                      {revisionsId === e.id && (
+                        <RevisionHistory
+                          entry={e}
+                          money={entryMoney(e)}
+                          onRestore={(rev) => restoreRevision(e, rev)}
+                          onClose={() => setRevisionsId(null)}
+                        />
+                      )}
+                      {watchingId === e.id && (
+                        <PriceWatchPanel
+                          entry={e}
+                          watch={watch}
+                          money={entryMoney(e)}
+                          onChange={(prices) =>
+                            updateEntry(e.id, () => ({ prices }))
+                          }
+                          onClose={() => setWatchingId(null)}
+                        />
+                      )}
+                      {reviewingId === e.id && (
+                        <OutcomeReview
+                          entry={e}
+                          onSave={(outcome) => logOutcome(e.id, outcome)}
+                          onCancel={() => setReviewingId(null)}
+                        />
+                      )}
                     </div>
-                  </div>
-                ))}
+                  );
+                })}
               </div>
             )}
           </Section>
 
+          <Section title="Settings" subtitle="Saved in this browser">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <Select
+                label="Currency"
+                value={settings.currency}
+                onChange={setSetting("currency")}
+                options={CURRENCY_OPTIONS}
+                hint="For new entries"
+              />
+              <Select
+                label="Number format"
+                value={settings.locale}
+                onChange={setSetting("locale")}
+                options={LOCALE_OPTIONS}
+              />
+            </div>
+            {moneyFormat.currency !== settings.currency && (
+              <div className="flex flex-wrap items-center gap-2 text-xs text-slate-500">
+                This entry was entered in {moneyFormat.currency}; amounts are
+                not converted.
+                <button
+                  className="underline"
+                  onClick={() => setScenarioCurrency(settings.currency)}
+                >
+                  Relabel as {settings.currency}
+                </button>
+              </div>
+            )}
+            <BandsEditor
+              bands={settings.bands}
+              onChange={setSetting("bands")}
+            />
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <LabeledNumber
+                label="Ask how it went after (days)"
+                value={settings.reviewAfterDays}
+                onChange={(days) =>
+                  setSetting("reviewAfterDays")(Math.max(1, Math.round(days)))
+                }
+                min={1}
+                max={365}
+              />
+            </div>
+            <CoolingOffEditor
+              value={settings.coolingOff}
+              onChange={setSetting("coolingOff")}
+              currency={settings.currency}
+            />
+            <BudgetEditor
+              value={settings.budget}
+              onChange={setSetting("budget")}
+              currency={settings.currency}
+            />
+            <CoefficientsEditor
+              value={inputs.coefficients}
+              onChange={setCoefficients}
+              profile={weightProfile}
+            />
+          </Section>
+
           <Section
             title="Explain the Math"
             subtitle="Transparent formula sketch"
@@ -1419,8 +2397,68 @@ function BuyOrNot() {
             <div className="text-sm space-y-2">
               <p>
                 <span className="font-medium">Effective Cost</span> = (Price +
-                Tax) − max(0, AdjSalePrice×AdjProb − Fees − Shipping −
-                (AdjTimeHours×$∕hr) − Friction)
+                Fees + Tax) + Cost of credit + Running costs − Trade-in − Resale
+                later
+              </p>
+              {budget && (
+                <p>
+                  <span className="font-medium">Budget pain</span> (from your
+                  budget) = min(10, This month’s outlay ∕ (Budget − Savings goal
+                  − Bought this month) × 10), or 10 if nothing is left
+                  {budgetManual ? " — set by hand for this entry" : ""}
+                </p>
+              )}
+              <p>
+                <span className="font-medium">Running costs</span> = Σ per-month
+                × {monthsOwn} months + Σ per-use × ~
+                {Math.round(totalExpectedUses)} uses
+              </p>
+              <p>
+                <span className="font-medium">Trade-in</span> (old item, now) =
+                max(0, AdjSalePrice×AdjProb − Fees − Shipping − (AdjTimeHours×
+                {symbol}∕hr) − Friction), or 0 if you keep the old item
+              </p>
+              <p>
+                <span className="font-medium">Resale later</span> (new item,
+                after {monthsOwn} mo) = Price × Residual × ConditionMult ×
+                P(resell) × (1 − Fees%), where Residual = 1 − d₁×t in the first
+                year and (1 − d₁)×(1 − d)^(t−1) after (t in years; d₁, d from
+                the category: {categoryFor(categoryKey).firstYearPct}% then{" "}
+                {categoryFor(categoryKey).yearlyPct}%/yr)
+              </p>
+              <p>
+                <span className="font-medium">Cost of credit</span> = n ×
+                Payment − Sticker + Plan fees, where Payment = Sticker×r ∕ (1 −
+                (1+r)^−n) and r = APR∕12 (APR∕26 for BNPL installments)
+              </p>
+              <p>
+                <span className="font-medium">Wait N months</span> = score at
+                (P(sale)×Sticker(on sale) + (1−P(sale))×Sticker(full), both with
+                price drift) + MissedUses×CostPerUse − Urgency×0.3×N (max −30)
+              </p>
+              <p>
+                <span className="font-medium">Financial</span> ={" "}
+                {formulas.financial}
+              </p>
+              <p>
+                <span className="font-medium">Utility</span> ={" "}
+                {formulas.utility}
+              </p>
+              <p>
+                <span className="font-medium">Risk</span> = {formulas.risk}
+              </p>
+              <p>
+                <span className="font-medium">Custom criteria</span>: each
+                pillar = (1 − Σweights)×formula + Σ weight×rating×10 (10 −
+                rating if lower is better)
+              </p>
+              <p>
+                <span className="font-medium">Decision</span> ={" "}
+                {WEIGHT_KEYS.map((k) =>
+                  effectiveWeights(inputs)[k].toFixed(2)
+                ).join(", ")}{" "}
+                × (Financial, Utility, Risk)
+                {normalizeWeights && " — weights normalized to sum to 1"}
               </p>
             </div>
           </Section>
@@ -1439,32 +2477,18 @@ function BuyOrNot() {
         {/* RIGHT: sticky summary */}
         <div className="lg:col-span-4">
           <DecisionSummary
-            verdictLabel={verdict.label}
-            decisionScore={decisionScore}
-            stickerCost={stickerCost}
-            effectiveCost={effectiveCost}
-            resaleOffset={resaleOffset}
-            costPerUse={costPerUse}
+            inputs={scored}
+            result={result}
             sensitivity={sensitivity}
-            simulateWait={simulateWait}
-            monthsToWait={monthsToWait}
-            targetDiscountPct={targetDiscountPct}
-            budgetImpact={budgetImpact}
-            useFrequency={useFrequency}
-            longevity={longevity}
-            price={price}
-            taxFor={taxFor}
-            needLevel={needLevel}
-            joyScore={joyScore}
-            workRelated={workRelated}
-            resaleAggressive={resaleAggressive}
-            altAvailable={altAvailable}
-            returnPolicy={returnPolicy}
-            warranty={warranty}
-            spaceFit={spaceFit}
-            urgency={urgency}
-            keepOldItem={keepOldItem}
-            minimalismStrength={minimalismStrength}
+            simulation={simulation}
+            wait={wait}
+            breakEven={breakEven}
+            provisionalUntil={
+              activeEntry && isProvisional(activeEntry)
+                ? activeEntry.coolingOff.until
+                : null
+            }
+            money={money}
           />
         </div>
       </div>
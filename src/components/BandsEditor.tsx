@@ -0,0 +1,101 @@
+// src/components/BandsEditor.tsx
+import { MAX_BANDS, parseBands, VERDICT_TONE_OPTIONS } from "../lib/bands";
+import { VERDICT_BANDS, type VerdictBand } from "../lib/scoring";
+import { Pill, Select } from "./ui";
+
+/** Cutoffs, labels and colours for the verdict. */
+export function BandsEditor({
+  bands,
+  onChange,
+}: {
+  bands: VerdictBand[];
+  onChange: (bands: VerdictBand[]) => void;
+}) {
+  const update = (i: number, patch: Partial<VerdictBand>) =>
+    onChange(bands.map((b, j) => (j === i ? { ...b, ...patch } : b)));
+  const valid = parseBands(bands) !== null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">
+          Verdict bands
+        </span>
+        <div className="flex gap-3">
+          {bands.length < MAX_BANDS && (
+            <button
+              type="button"
+              className="text-xs underline text-slate-600"
+              onClick={() =>
+                onChange([
+                  ...bands,
+                  { min: 70, label: "New band", tone: "gray" },
+                ])
+              }
+            >
+              Add band
+            </button>
+          )}
+          <button
+            type="button"
+            className="text-xs underline text-slate-600"
+            onClick={() => onChange(VERDICT_BANDS)}
+          >
+            Reset
+          </button>
+        </div>
+      </div>
+      {bands.map((b, i) => (
+        <div
+          key={i}
+          className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end"
+        >
+          <label className="md:col-span-2 block">
+            <span className="text-sm font-medium text-slate-700">Score ≥</span>
+            <input
+              type="number"
+              className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+              value={Number.isFinite(b.min) ? b.min : ""}
+              onChange={(e) => update(i, { min: Number(e.target.value) })}
+              min={0}
+              max={100}
+              step={1}
+            />
+          </label>
+          <label className="md:col-span-4 block">
+            <span className="text-sm font-medium text-slate-700">Label</span>
+            <input
+              className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+              value={b.label}
+              onChange={(e) => update(i, { label: e.target.value })}
+            />
+          </label>
+          <div className="md:col-span-3">
+            <Select
+              label="Colour"
+              value={b.tone}
+              onChange={(tone) => update(i, { tone })}
+              options={VERDICT_TONE_OPTIONS}
+            />
+          </div>
+          <div className="md:col-span-2 pb-2">
+            <Pill tone={b.tone}>{b.label || "—"}</Pill>
+          </div>
+          <button
+            type="button"
+            className="md:col-span-1 pb-2 text-xs text-red-700 underline disabled:opacity-40"
+            disabled={bands.length === 1}
+            onClick={() => onChange(bands.filter((_, j) => j !== i))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <p className={`text-xs ${valid ? "text-slate-500" : "text-red-600"}`}>
+        {valid
+          ? "Checked from the highest cutoff down; the lowest band catches every score below it. Saved entries keep the bands they were decided with."
+          : "Every band needs a label and a numeric cutoff — using the built-in bands until then."}
+      </p>
+    </div>
+  );
+}
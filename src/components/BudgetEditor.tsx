@@ -0,0 +1,55 @@
+// src/components/BudgetEditor.tsx
+import type { BudgetProfile } from "../lib/budget";
+import { LabeledNumber, Toggle } from "./ui";
+
+/** Settings: the monthly budget behind the derived budget pain. */
+export function BudgetEditor({
+  value,
+  onChange,
+  currency,
+}: {
+  value: BudgetProfile;
+  onChange: (b: BudgetProfile) => void;
+  /** Currency the amounts are in (the settings currency). */
+  currency: string;
+}) {
+  const set =
+    <K extends keyof BudgetProfile>(key: K) =>
+    (v: BudgetProfile[K]) =>
+      onChange({ ...value, [key]: v });
+  // Negative amounts would fail validation on reload and reset the budget.
+  const amount =
+    (key: "monthlyBudget" | "savingsGoal" | "hourlyIncome") => (v: number) =>
+      set(key)(Number.isFinite(v) ? Math.max(0, v) : 0);
+
+  return (
+    <div className="space-y-3">
+      <Toggle
+        label="Derive budget pain from my budget"
+        checked={value.enabled}
+        onChange={set("enabled")}
+        hint="Uses this month's purchases marked as bought in History"
+      />
+      {value.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <LabeledNumber
+            label={`Monthly discretionary budget (${currency})`}
+            value={value.monthlyBudget}
+            onChange={amount("monthlyBudget")}
+          />
+          <LabeledNumber
+            label={`Savings goal per month (${currency})`}
+            value={value.savingsGoal}
+            onChange={amount("savingsGoal")}
+          />
+          <LabeledNumber
+            label={`Net hourly income (${currency})`}
+            value={value.hourlyIncome}
+            onChange={amount("hourlyIncome")}
+            step={0.5}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
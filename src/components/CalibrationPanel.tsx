@@ -0,0 +1,83 @@
+// src/components/CalibrationPanel.tsx
+import { useState } from "react";
+import { describeBands } from "../lib/bands";
+import {
+  CALIBRATED_PROFILE,
+  MIN_OUTCOMES,
+  type Calibration,
+  type Fit,
+} from "../lib/calibration";
+import { INPUT_LABELS } from "../lib/fields";
+import { pct } from "../lib/format";
+import type { VerdictBand } from "../lib/scoring";
+import { WEIGHT_KEYS, type Weights } from "../lib/weights";
+import { Toggle } from "./ui";
+
+const fitText = (f: Fit) =>
+  `${pct(f.agreement * 100)} agreement, off by ${Math.round(
+    f.meanMiss
+  )} pts on average`;
+
+/** Suggested weights (and bands) fitted to the outcomes logged in History. */
+export function CalibrationPanel({
+  calibration,
+  reviewed,
+  onApply,
+}: {
+  calibration: Calibration | null;
+  /** Reviewed entries so far. */
+  reviewed: number;
+  onApply: (weights: Weights, bands: VerdictBand[] | null) => void;
+}) {
+  const [withBands, setWithBands] = useState(false);
+
+  if (!calibration)
+    return (
+      <div className="bg-slate-50 rounded-xl p-3 text-sm text-slate-600">
+        <span className="font-medium">Calibrate from outcomes:</span> review at
+        least {MIN_OUTCOMES} decisions in History ({reviewed} so far) to get
+        weights fitted to how your purchases actually turned out.
+      </div>
+    );
+
+  const c = calibration;
+  const shifted = withBands ? c.shifted : null;
+  return (
+    <div className="bg-slate-50 rounded-xl p-3 text-sm space-y-2">
+      <div className="font-medium">
+        Calibrated from {c.count} reviewed decisions
+      </div>
+      <div>
+        Suggested weights:{" "}
+        <span className="font-semibold">
+          {WEIGHT_KEYS.map(
+            (k) =>
+              `${INPUT_LABELS[k].replace("Weight: ", "")} ${pct(
+                c.weights[k] * 100
+              )}`
+          ).join(" · ")}
+        </span>
+      </div>
+      <div className="text-xs text-slate-600">
+        As decided: {fitText(c.before)}
+        <br />
+        With these weights: {fitText(shifted ? shifted.fit : c.after)}
+      </div>
+      {c.shifted && (
+        <Toggle
+          label="Also move the verdict bands"
+          checked={withBands}
+          onChange={setWithBands}
+          hint={describeBands(c.shifted.bands)}
+        />
+      )}
+      <button
+        type="button"
+        className="btn-ghost"
+        onClick={() => onApply(c.weights, shifted ? shifted.bands : null)}
+      >
+        Apply as “{CALIBRATED_PROFILE}” profile
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+// src/components/CoefficientsEditor.tsx
+import { useState } from "react";
+import {
+  COEFFICIENT_GROUPS,
+  DEFAULT_COEFFICIENTS,
+  isDefaultCoefficients,
+  type CoefficientKey,
+  type Coefficients,
+} from "../lib/coefficients";
+import { LabeledNumber } from "./ui";
+
+/** Advanced: the numbers inside the pillar formulas. */
+export function CoefficientsEditor({
+  value,
+  onChange,
+  profile,
+}: {
+  value: Coefficients;
+  onChange: (c: Coefficients) => void;
+  /** Weight profile the coefficients are saved with ("" = this scenario). */
+  profile: string;
+}) {
+  const [open, setOpen] = useState(false);
+  const set = (key: CoefficientKey) => (v: number) =>
+    onChange({ ...value, [key]: Number.isFinite(v) ? v : 0 });
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium text-slate-700">
+            Formula coefficients
+          </div>
+          <div className="text-xs text-slate-500">
+            {isDefaultCoefficients(value) ? "Defaults" : "Customized"} •{" "}
+            {profile
+              ? `saved with the “${profile}” profile`
+              : "this scenario only (custom weights)"}
+          </div>
+        </div>
+        <div className="flex gap-3">
+          {!isDefaultCoefficients(value) && (
+            <button
+              type="button"
+              className="text-xs underline text-slate-600"
+              onClick={() => onChange(DEFAULT_COEFFICIENTS)}
+            >
+              Reset to defaults
+            </button>
+          )}
+          <button
+            type="button"
+            className="text-xs underline text-slate-600"
+            onClick={() => setOpen(!open)}
+          >
+            {open ? "Hide" : "Edit"}
+          </button>
+        </div>
+      </div>
+      {open &&
+        COEFFICIENT_GROUPS.map((g) => (
+          <div key={g.title}>
+            <div className="eyebrow mb-2">{g.title}</div>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {g.fields.map((f) => (
+                <LabeledNumber
+                  key={f.key}
+                  label={f.label}
+                  value={value[f.key]}
+                  onChange={set(f.key)}
+                  step={f.step}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+}
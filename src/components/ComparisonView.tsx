@@ -0,0 +1,123 @@
+// src/components/ComparisonView.tsx
+import { useMemo, useState } from "react";
+import { compareEntries } from "../lib/compare";
+import { inputText } from "../lib/fields";
+import { formatMoney } from "../lib/format";
+import type { Entry } from "../lib/storage";
+import { Pill, Toggle } from "./ui";
+
+export function ComparisonView({
+  entries,
+  locale,
+  onClose,
+}: {
+  entries: Entry[];
+  locale: string;
+  onClose: () => void;
+}) {
+  const [onlyDiffs, setOnlyDiffs] = useState(true);
+  const { results, metrics, inputs } = useMemo(
+    () => compareEntries(entries),
+    [entries]
+  );
+  const mixedCurrencies = entries.some(
+    (e) => e.currency !== entries[0].currency
+  );
+  const shownInputs = onlyDiffs ? inputs.filter((r) => r.differs) : inputs;
+
+  return (
+    <div className="space-y-4">
+      {mixedCurrencies && (
+        <p className="text-xs text-red-600">
+          These entries use different currencies; amounts are not converted, so
+          cost winners may be misleading.
+        </p>
+      )}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="py-2 pr-3 font-medium text-slate-500" />
+              {entries.map((e, i) => (
+                <th key={e.id} className="py-2 px-3 align-bottom">
+                  <div className="font-semibold">{e.name}</div>
+                  <div className="mt-1">
+                    <Pill tone={results[i].verdict.tone}>
+                      {results[i].verdict.label}
+                    </Pill>
+                  </div>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {metrics.map((row) => (
+              <tr key={row.key} className="border-t border-slate-100">
+                <td className="py-2 pr-3 text-slate-600">{row.label}</td>
+                {row.values.map((v, i) => (
+                  <td
+                    key={entries[i].id}
+                    className={`py-2 px-3 tabular-nums ${
+                      row.winners.includes(i)
+                        ? "bg-green-50 text-green-800 font-semibold"
+                        : ""
+                    }`}
+                  >
+                    {row.format === "money"
+                      ? formatMoney(v, {
+                          currency: entries[i].currency,
+                          locale,
+                        })
+                      : `${v}/100`}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            <tr>
+              <td colSpan={entries.length + 1} className="pt-4 pb-1 eyebrow">
+                Inputs
+              </td>
+            </tr>
+            {shownInputs.map((row) => (
+              <tr
+                key={row.key}
+                className={`border-t border-slate-100 ${
+                  row.differs ? "bg-yellow-50" : ""
+                }`}
+              >
+                <td className="py-1.5 pr-3 text-slate-600">{row.label}</td>
+                {row.values.map((v, i) => (
+                  <td key={entries[i].id} className="py-1.5 px-3 tabular-nums">
+                    {inputText(v)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {shownInputs.length === 0 && (
+              <tr>
+                <td
+                  colSpan={entries.length + 1}
+                  className="py-2 text-slate-500"
+                >
+                  Every input is identical.
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      <div className="flex items-center justify-between gap-4">
+        <div className="w-64">
+          <Toggle
+            label="Only inputs that differ"
+            checked={onlyDiffs}
+            onChange={setOnlyDiffs}
+          />
+        </div>
+        <button className="btn-ghost" onClick={onClose}>
+          Close comparison
+        </button>
+      </div>
+    </div>
+  );
+}
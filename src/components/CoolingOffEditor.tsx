@@ -0,0 +1,59 @@
+// src/components/CoolingOffEditor.tsx
+import type { CoolingOffRule } from "../lib/coolingoff";
+import { LabeledNumber, Toggle } from "./ui";
+
+/** Settings: the "sleep on it" rule for new entries. */
+export function CoolingOffEditor({
+  value,
+  onChange,
+  currency,
+}: {
+  value: CoolingOffRule;
+  onChange: (rule: CoolingOffRule) => void;
+  currency: string;
+}) {
+  const set =
+    <K extends keyof CoolingOffRule>(key: K) =>
+    (v: CoolingOffRule[K]) =>
+      onChange({ ...value, [key]: v });
+
+  const toggle = (enabled: boolean) => {
+    set("enabled")(enabled);
+    // Reminders come as browser notifications while the tab is open.
+    if (
+      enabled &&
+      "Notification" in window &&
+      Notification.permission === "default"
+    )
+      void Notification.requestPermission();
+  };
+
+  return (
+    <div className="space-y-3">
+      <Toggle
+        label="Sleep on big purchases"
+        checked={value.enabled}
+        onChange={toggle}
+        hint="New entries above a price get a provisional verdict and a revisit date"
+      />
+      {value.enabled && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          <LabeledNumber
+            label={`Above price (${currency}, pre-tax)`}
+            value={value.minPrice}
+            onChange={set("minPrice")}
+            hint="Entries in other currencies skip this"
+          />
+          <LabeledNumber
+            label="Revisit after (days)"
+            value={value.days}
+            onChange={(days) => set("days")(Math.max(1, Math.round(days)))}
+            min={1}
+            max={365}
+            hint="e.g. 7 or 30"
+          />
+        </div>
+      )}
+    </div>
+  );
+}
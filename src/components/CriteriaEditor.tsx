@@ -0,0 +1,107 @@
+// src/components/CriteriaEditor.tsx
+import {
+  DIRECTION_OPTIONS,
+  PILLAR_OPTIONS,
+  type CustomCriterion,
+} from "../lib/criteria";
+import { LabeledNumber, Select, Slider } from "./ui";
+
+/** Extra 0–10 ratings that feed into one of the three pillars. */
+export function CriteriaEditor({
+  criteria,
+  onChange,
+}: {
+  criteria: CustomCriterion[];
+  onChange: (criteria: CustomCriterion[]) => void;
+}) {
+  const update = (i: number, patch: Partial<CustomCriterion>) =>
+    onChange(criteria.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="space-y-4">
+      {criteria.length === 0 && (
+        <p className="text-sm text-slate-500">
+          e.g. brand trust, repairability, partner approval.
+        </p>
+      )}
+      {criteria.map((c, i) => (
+        <div
+          key={i}
+          className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end border-t border-slate-100 pt-3 first:border-0 first:pt-0"
+        >
+          <label className="md:col-span-3 block">
+            <span className="text-sm font-medium text-slate-700">Name</span>
+            <input
+              className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+              value={c.name}
+              onChange={(e) => update(i, { name: e.target.value })}
+              placeholder="Brand trust"
+            />
+          </label>
+          <div className="md:col-span-3">
+            <Slider
+              label="Rating"
+              value={c.value}
+              onChange={(value) => update(i, { value })}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Select
+              label="Direction"
+              value={c.direction}
+              onChange={(direction) => update(i, { direction })}
+              options={DIRECTION_OPTIONS}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Select
+              label="Pillar"
+              value={c.pillar}
+              onChange={(pillar) => update(i, { pillar })}
+              options={PILLAR_OPTIONS}
+            />
+          </div>
+          <div className="md:col-span-1">
+            <LabeledNumber
+              label="Weight"
+              value={c.weight}
+              onChange={(weight) => update(i, { weight })}
+              min={0}
+              max={1}
+              step={0.05}
+            />
+          </div>
+          <button
+            type="button"
+            className="md:col-span-1 pb-2 text-xs text-red-700 underline"
+            onClick={() => onChange(criteria.filter((_, j) => j !== i))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn-ghost"
+        onClick={() =>
+          onChange([
+            ...criteria,
+            {
+              name: "",
+              value: 5,
+              direction: "higher",
+              weight: 0.1,
+              pillar: "utility",
+            },
+          ])
+        }
+      >
+        Add criterion
+      </button>
+      <p className="text-xs text-slate-500">
+        Weight is the share of the pillar a criterion takes: 0.1 means the
+        pillar is 90% its usual formula and 10% this rating.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,76 @@
+// src/components/FeesEditor.tsx
+import type { FlatFee } from "../lib/tax";
+import { Toggle } from "./ui";
+
+/** Flat per-item fees (environmental handling, deposits, delivery…). */
+export function FeesEditor({
+  fees,
+  onChange,
+  symbol,
+}: {
+  fees: FlatFee[];
+  onChange: (fees: FlatFee[]) => void;
+  symbol: string;
+}) {
+  const update = (i: number, patch: Partial<FlatFee>) =>
+    onChange(fees.map((f, j) => (j === i ? { ...f, ...patch } : f)));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-slate-700">Flat fees</span>
+        <button
+          type="button"
+          className="text-xs underline text-slate-600"
+          onClick={() =>
+            onChange([...fees, { label: "EHF", amount: 0, taxable: true }])
+          }
+        >
+          Add fee
+        </button>
+      </div>
+      {fees.length === 0 && (
+        <p className="text-xs text-slate-500">
+          e.g. environmental handling fee, deposit, delivery.
+        </p>
+      )}
+      {fees.map((f, i) => (
+        <div
+          key={i}
+          className="grid grid-cols-1 md:grid-cols-12 gap-3 items-center"
+        >
+          <input
+            className="md:col-span-5 rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+            value={f.label}
+            onChange={(e) => update(i, { label: e.target.value })}
+            placeholder="Fee name"
+            aria-label="Fee name"
+          />
+          <input
+            type="number"
+            className="md:col-span-3 rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+            value={Number.isFinite(f.amount) ? f.amount : ""}
+            onChange={(e) => update(i, { amount: Number(e.target.value) })}
+            min={0}
+            step={0.01}
+            aria-label={`Fee amount (${symbol})`}
+          />
+          <div className="md:col-span-3">
+            <Toggle
+              label="Taxable"
+              checked={f.taxable}
+              onChange={(taxable) => update(i, { taxable })}
+            />
+          </div>
+          <button
+            type="button"
+            className="md:col-span-1 text-xs text-red-700 underline"
+            onClick={() => onChange(fees.filter((_, j) => j !== i))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
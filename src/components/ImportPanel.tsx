@@ -0,0 +1,114 @@
+// src/components/ImportPanel.tsx
+import { useState } from "react";
+import { formatMoney } from "../lib/format";
+import type {
+  ConflictStrategy,
+  ImportMode,
+  ImportPreview,
+} from "../lib/transfer";
+import { Chip, Select } from "./ui";
+
+const MODE_OPTIONS: { key: ImportMode; label: string }[] = [
+  { key: "merge", label: "Merge into my history" },
+  { key: "replace", label: "Replace my history" },
+];
+
+const CONFLICT_OPTIONS: { key: ConflictStrategy; label: string }[] = [
+  { key: "skip", label: "Skip (keep mine)" },
+  { key: "overwrite", label: "Overwrite with imported" },
+  { key: "keep-both", label: "Keep both" },
+];
+
+const PREVIEW_ROWS = 8;
+
+export function ImportPanel({
+  preview,
+  currentCount,
+  locale,
+  onApply,
+  onCancel,
+}: {
+  preview: ImportPreview;
+  currentCount: number;
+  locale: string;
+  onApply: (mode: ImportMode, onConflict: ConflictStrategy) => void;
+  onCancel: () => void;
+}) {
+  const [mode, setMode] = useState<ImportMode>("merge");
+  const [onConflict, setOnConflict] = useState<ConflictStrategy>("skip");
+  const { entries, skippedCount, conflictIds, exportedAt } = preview;
+  const conflicts = new Set(conflictIds);
+
+  return (
+    <div className="rounded-xl border border-slate-300 bg-slate-50 p-4 space-y-3">
+      <div>
+        <div className="text-sm font-medium">
+          Import {entries.length} {entries.length === 1 ? "entry" : "entries"}
+        </div>
+        <div className="text-xs text-slate-500">
+          {exportedAt && (
+            <>Exported {new Date(exportedAt).toLocaleString()} • </>
+          )}
+          {conflictIds.length} already here
+          {skippedCount > 0 && <> • {skippedCount} could not be read</>}
+        </div>
+      </div>
+
+      <ul className="text-xs space-y-1">
+        {entries.slice(0, PREVIEW_ROWS).map((e) => (
+          <li key={e.id} className="flex items-center justify-between gap-2">
+            <span className="truncate">
+              {e.name} • {e.outputs.verdict} • {e.outputs.decisionScore}/100 •
+              Eff:{" "}
+              {formatMoney(e.outputs.effectiveCost, {
+                currency: e.currency,
+                locale,
+              })}
+            </span>
+            {conflicts.has(e.id) && <Chip>same id</Chip>}
+          </li>
+        ))}
+        {entries.length > PREVIEW_ROWS && (
+          <li className="text-slate-500">
+            …and {entries.length - PREVIEW_ROWS} more
+          </li>
+        )}
+      </ul>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <Select
+          label="Mode"
+          value={mode}
+          onChange={setMode}
+          options={MODE_OPTIONS}
+        />
+        {mode === "merge" && conflictIds.length > 0 && (
+          <Select
+            label="When an id already exists"
+            value={onConflict}
+            onChange={setOnConflict}
+            options={CONFLICT_OPTIONS}
+          />
+        )}
+      </div>
+      {mode === "replace" && currentCount > 0 && (
+        <p className="text-xs text-red-600">
+          Your {currentCount} current {currentCount === 1 ? "entry" : "entries"}{" "}
+          will be removed. Export first if you want a backup.
+        </p>
+      )}
+
+      <div className="flex gap-2">
+        <button
+          className={mode === "replace" ? "btn-danger" : "btn-primary"}
+          onClick={() => onApply(mode, onConflict)}
+        >
+          {mode === "replace" ? "Replace history" : "Merge"}
+        </button>
+        <button className="btn-ghost" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
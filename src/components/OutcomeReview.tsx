@@ -0,0 +1,75 @@
+// src/components/OutcomeReview.tsx
+import { useState } from "react";
+import { statusLabel, wasBought, type DecisionOutcome } from "../lib/outcomes";
+import type { Entry } from "../lib/storage";
+import { LabeledNumber, Slider, Toggle } from "./ui";
+
+/** Log how a decision actually went. */
+export function OutcomeReview({
+  entry,
+  onSave,
+  onCancel,
+}: {
+  entry: Entry;
+  onSave: (outcome: DecisionOutcome) => void;
+  onCancel: () => void;
+}) {
+  const bought = wasBought(entry.status);
+  const [draft, setDraft] = useState<Omit<DecisionOutcome, "loggedAt">>(
+    () =>
+      entry.outcome ?? {
+        usesPerWeek: entry.inputs.usesPerWeek,
+        satisfaction: 5,
+        regret: false,
+      }
+  );
+  const set =
+    <K extends keyof typeof draft>(key: K) =>
+    (v: (typeof draft)[K]) =>
+      setDraft((prev) => ({ ...prev, [key]: v }));
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-3 space-y-3">
+      <div className="text-sm font-medium">
+        How did it go? {entry.name}{" "}
+        <span className="text-slate-500 font-normal">
+          ({statusLabel(entry.status).toLowerCase()})
+        </span>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {bought && (
+          <LabeledNumber
+            label="Actual uses per week"
+            value={draft.usesPerWeek}
+            onChange={set("usesPerWeek")}
+            max={21}
+            step={0.5}
+            hint={`predicted ${entry.inputs.usesPerWeek}`}
+          />
+        )}
+        <Slider
+          label="Satisfaction with the decision"
+          value={draft.satisfaction}
+          onChange={set("satisfaction")}
+        />
+        <Toggle
+          label="I regret it"
+          checked={draft.regret}
+          onChange={set("regret")}
+          hint={bought ? "I wish I hadn't bought it" : "I wish I had bought it"}
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          className="btn-primary"
+          onClick={() => onSave({ ...draft, loggedAt: Date.now() })}
+        >
+          Save review
+        </button>
+        <button className="btn-ghost" onClick={onCancel}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+// src/components/PriceChart.tsx
+import type { PriceObservation } from "../lib/pricewatch";
+
+const W = 300;
+const H = 80;
+const PAD = 6;
+
+/**
+ * Logged prices over time, with the wait target as a dashed line. Points at
+ * or below the target are green.
+ */
+export function PriceChart({
+  prices,
+  target,
+  money,
+}: {
+  /** Oldest first. */
+  prices: PriceObservation[];
+  target: number;
+  money: (n: number) => string;
+}) {
+  if (prices.length === 0) return null;
+  const values = [...prices.map((p) => p.price), target];
+  const lo = Math.min(...values);
+  const hi = Math.max(...values);
+  const t0 = prices[0].at;
+  const span = prices[prices.length - 1].at - t0;
+  const x = (at: number) =>
+    span > 0 ? PAD + ((at - t0) / span) * (W - 2 * PAD) : W / 2;
+  const y = (price: number) =>
+    hi > lo ? PAD + ((hi - price) / (hi - lo)) * (H - 2 * PAD) : H / 2;
+
+  return (
+    <svg
+      viewBox={`0 0 ${W} ${H}`}
+      className="w-full h-20"
+      role="img"
+      aria-label="Price history"
+    >
+      <line
+        x1={0}
+        x2={W}
+        y1={y(target)}
+        y2={y(target)}
+        className="stroke-green-600"
+        strokeDasharray="4 3"
+      />
+      <polyline
+        fill="none"
+        className="stroke-slate-700"
+        strokeWidth={1.5}
+        points={prices.map((p) => `${x(p.at)},${y(p.price)}`).join(" ")}
+      />
+      {prices.map((p, i) => (
+        <circle
+          key={i}
+          cx={x(p.at)}
+          cy={y(p.price)}
+          r={3}
+          className={p.price <= target ? "fill-green-600" : "fill-slate-700"}
+        >
+          <title>
+            {new Date(p.at).toLocaleDateString()} • {money(p.price)}
+            {p.retailer ? ` • ${p.retailer}` : ""}
+          </title>
+        </circle>
+      ))}
+    </svg>
+  );
+}
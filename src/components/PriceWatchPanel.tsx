@@ -0,0 +1,170 @@
+// src/components/PriceWatchPanel.tsx
+import { useState } from "react";
+import { pct } from "../lib/format";
+import {
+  sortPrices,
+  targetPriceFor,
+  type PriceObservation,
+  type PriceWatch,
+} from "../lib/pricewatch";
+import type { Entry } from "../lib/storage";
+import { PriceChart } from "./PriceChart";
+import { Pill } from "./ui";
+
+/** Today as YYYY-MM-DD in local time (what date inputs use). */
+const today = () => {
+  const d = new Date();
+  return new Date(d.getTime() - d.getTimezoneOffset() * 60_000)
+    .toISOString()
+    .slice(0, 10);
+};
+
+/** Log prices seen for one entry and re-score it at them. */
+export function PriceWatchPanel({
+  entry,
+  watch,
+  money,
+  onChange,
+  onClose,
+}: {
+  entry: Entry;
+  watch: PriceWatch | null;
+  money: (n: number) => string;
+  onChange: (prices: PriceObservation[]) => void;
+  onClose: () => void;
+}) {
+  const [day, setDay] = useState(today);
+  const [price, setPrice] = useState(entry.inputs.price);
+  const [retailer, setRetailer] = useState("");
+  const prices = sortPrices(entry.prices);
+  const target = targetPriceFor(entry);
+
+  const add = () => {
+    // Date inputs are local calendar days; noon avoids timezone slips.
+    const at = new Date(`${day}T12:00:00`).getTime();
+    if (!Number.isFinite(at) || !Number.isFinite(price) || price < 0) return;
+    onChange([...entry.prices, { at, price, retailer: retailer.trim() }]);
+    setRetailer("");
+  };
+  const remove = (p: PriceObservation) =>
+    onChange(entry.prices.filter((q) => q !== p));
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">
+          Price watch: {entry.name}{" "}
+          <span className="text-slate-500 font-normal">
+            (target {money(target)}, −{pct(entry.inputs.targetDiscountPct)})
+          </span>
+        </div>
+        <button
+          type="button"
+          className="text-xs underline text-slate-600"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      {watch && (
+        <>
+          <PriceChart prices={prices} target={target} money={money} />
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            <div className="bg-slate-50 rounded-xl p-3">
+              Latest:{" "}
+              <span className="font-semibold">{money(watch.latest.price)}</span>
+              <div className="text-xs text-slate-500">
+                {watch.atLatest.decisionScore}/100 •{" "}
+                {watch.atLatest.verdict.label}
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-3">
+              Lowest:{" "}
+              <span className="font-semibold">{money(watch.lowest.price)}</span>
+              {watch.lowest.retailer && ` at ${watch.lowest.retailer}`}
+              <div className="text-xs text-slate-500">
+                {watch.atLowest.decisionScore}/100 •{" "}
+                {watch.atLowest.verdict.label}
+              </div>
+            </div>
+            <div className="bg-slate-50 rounded-xl p-3 flex items-center">
+              {watch.targetReached ? (
+                <Pill tone="green">Target reached</Pill>
+              ) : (
+                <span className="text-slate-600">
+                  {money(watch.lowest.price - target)} above target
+                </span>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end">
+        <label className="md:col-span-3 block">
+          <span className="text-sm font-medium text-slate-700">Date</span>
+          <input
+            type="date"
+            className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+            value={day}
+            onChange={(e) => setDay(e.target.value)}
+          />
+        </label>
+        <label className="md:col-span-3 block">
+          <span className="text-sm font-medium text-slate-700">Price</span>
+          <input
+            type="number"
+            className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+            value={Number.isFinite(price) ? price : ""}
+            onChange={(e) => setPrice(Number(e.target.value))}
+            min={0}
+            step={0.01}
+          />
+        </label>
+        <label className="md:col-span-4 block">
+          <span className="text-sm font-medium text-slate-700">Retailer</span>
+          <input
+            className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+            value={retailer}
+            onChange={(e) => setRetailer(e.target.value)}
+            placeholder="Best Buy"
+          />
+        </label>
+        <button type="button" className="btn-ghost md:col-span-2" onClick={add}>
+          Log price
+        </button>
+      </div>
+
+      {prices.length > 0 && (
+        <ul className="space-y-1">
+          {[...prices].reverse().map((p, i) => (
+            <li
+              key={`${p.at}-${i}`}
+              className="flex items-center justify-between text-xs"
+            >
+              <span>
+                {new Date(p.at).toLocaleDateString()} •{" "}
+                <span
+                  className={
+                    p.price <= target ? "font-semibold text-green-700" : ""
+                  }
+                >
+                  {money(p.price)}
+                </span>
+                {p.retailer && ` • ${p.retailer}`}
+              </span>
+              <button
+                type="button"
+                className="underline text-slate-600"
+                onClick={() => remove(p)}
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
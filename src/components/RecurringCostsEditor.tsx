@@ -0,0 +1,102 @@
+// src/components/RecurringCostsEditor.tsx
+import {
+  RECURRING_KIND_OPTIONS,
+  RECURRING_PER_OPTIONS,
+  recurringTotal,
+  type RecurringCost,
+} from "../lib/tco";
+import { Select } from "./ui";
+
+/** Costs that keep coming after the purchase, per month or per use. */
+export function RecurringCostsEditor({
+  costs,
+  onChange,
+  months,
+  uses,
+  money,
+}: {
+  costs: RecurringCost[];
+  onChange: (costs: RecurringCost[]) => void;
+  months: number;
+  uses: number;
+  money: (n: number) => string;
+}) {
+  const update = (i: number, patch: Partial<RecurringCost>) =>
+    onChange(costs.map((c, j) => (j === i ? { ...c, ...patch } : c)));
+
+  return (
+    <div className="space-y-3">
+      {costs.length === 0 && (
+        <p className="text-sm text-slate-500">
+          e.g. ink cartridges, coffee pods, a required subscription, power,
+          servicing, insurance.
+        </p>
+      )}
+      {costs.map((c, i) => (
+        <div
+          key={i}
+          className="grid grid-cols-1 md:grid-cols-12 gap-3 items-end"
+        >
+          <div className="md:col-span-2">
+            <Select
+              label="Type"
+              value={c.kind}
+              onChange={(kind) => update(i, { kind })}
+              options={RECURRING_KIND_OPTIONS}
+            />
+          </div>
+          <label className="md:col-span-3 block">
+            <span className="text-sm font-medium text-slate-700">Label</span>
+            <input
+              className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+              value={c.label}
+              onChange={(e) => update(i, { label: e.target.value })}
+              placeholder="Ink"
+            />
+          </label>
+          <label className="md:col-span-2 block">
+            <span className="text-sm font-medium text-slate-700">Amount</span>
+            <input
+              type="number"
+              className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+              value={Number.isFinite(c.amount) ? c.amount : ""}
+              onChange={(e) => update(i, { amount: Number(e.target.value) })}
+              min={0}
+              step={0.01}
+            />
+          </label>
+          <div className="md:col-span-2">
+            <Select
+              label="Per"
+              value={c.per}
+              onChange={(per) => update(i, { per })}
+              options={RECURRING_PER_OPTIONS}
+            />
+          </div>
+          <div className="md:col-span-2 pb-2 text-sm tabular-nums text-slate-600">
+            {money(recurringTotal(c, months, uses))} total
+          </div>
+          <button
+            type="button"
+            className="md:col-span-1 pb-2 text-xs text-red-700 underline"
+            onClick={() => onChange(costs.filter((_, j) => j !== i))}
+          >
+            Remove
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="btn-ghost"
+        onClick={() =>
+          onChange([
+            ...costs,
+            { label: "", kind: "consumables", amount: 0, per: "month" },
+          ])
+        }
+      >
+        Add recurring cost
+      </button>
+    </div>
+  );
+}
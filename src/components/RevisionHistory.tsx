@@ -0,0 +1,135 @@
+// src/components/RevisionHistory.tsx
+import { useState } from "react";
+import { inputText } from "../lib/fields";
+import { signed } from "../lib/format";
+import { diffInputs, type Revision } from "../lib/revisions";
+import type { Entry } from "../lib/storage";
+
+/**
+ * Saved versions of one entry, newest first. Pick any two to see which
+ * inputs changed between them, or restore an older one.
+ */
+export function RevisionHistory({
+  entry,
+  money,
+  onRestore,
+  onClose,
+}: {
+  entry: Entry;
+  money: (n: number) => string;
+  onRestore: (rev: Revision) => void;
+  onClose: () => void;
+}) {
+  const revs = entry.revisions;
+  const last = revs.length - 1;
+  const [from, setFrom] = useState(Math.max(0, last - 1));
+  const [to, setTo] = useState(last);
+  const a = revs[Math.min(from, last)];
+  const b = revs[Math.min(to, last)];
+  const changes = diffInputs(a.inputs, b.inputs);
+
+  return (
+    <div className="rounded-xl border border-slate-200 p-3 space-y-3 text-sm">
+      <div className="flex items-center justify-between">
+        <div className="font-medium">
+          Revisions: {entry.name}{" "}
+          <span className="text-slate-500 font-normal">
+            (first saved {new Date(entry.createdAt).toLocaleString()})
+          </span>
+        </div>
+        <button
+          type="button"
+          className="text-xs underline text-slate-600"
+          onClick={onClose}
+        >
+          Close
+        </button>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-left text-slate-500">
+            <th className="py-1 pr-2 font-medium">From</th>
+            <th className="py-1 pr-2 font-medium">To</th>
+            <th className="py-1 pr-2 font-medium">Saved</th>
+            <th className="py-1 pr-2 font-medium">Score</th>
+            <th className="py-1 pr-2 font-medium">Effective</th>
+            <th className="py-1" />
+          </tr>
+        </thead>
+        <tbody>
+          {revs
+            .map((r, i) => ({ r, i }))
+            .reverse()
+            .map(({ r, i }) => (
+              <tr key={`${r.at}-${i}`} className="border-t border-slate-100">
+                <td className="py-1 pr-2">
+                  <input
+                    type="radio"
+                    name={`rev-from-${entry.id}`}
+                    aria-label="Compare from"
+                    checked={from === i}
+                    onChange={() => setFrom(i)}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  <input
+                    type="radio"
+                    name={`rev-to-${entry.id}`}
+                    aria-label="Compare to"
+                    checked={to === i}
+                    onChange={() => setTo(i)}
+                  />
+                </td>
+                <td className="py-1 pr-2">
+                  {new Date(r.at).toLocaleString()}
+                  {i === last && " (current)"}
+                </td>
+                <td className="py-1 pr-2 tabular-nums">
+                  {r.outputs.decisionScore} • {r.outputs.verdict}
+                </td>
+                <td className="py-1 pr-2 tabular-nums">
+                  {money(r.outputs.effectiveCost)}
+                </td>
+                <td className="py-1 text-right">
+                  {i !== last && (
+                    <button
+                      type="button"
+                      className="underline text-slate-600"
+                      onClick={() => onRestore(r)}
+                    >
+                      Restore
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+        </tbody>
+      </table>
+
+      {a !== b && (
+        <div className="bg-slate-50 rounded-xl p-3 space-y-1">
+          <div className="font-medium">
+            Score {a.outputs.decisionScore} → {b.outputs.decisionScore} (
+            {signed(b.outputs.decisionScore - a.outputs.decisionScore)})
+          </div>
+          {changes.length === 0 ? (
+            <p className="text-xs text-slate-500">No input changes.</p>
+          ) : (
+            <ul className="text-xs space-y-0.5">
+              {changes.map((c) => (
+                <li key={c.key}>
+                  <span className="text-slate-600">{c.label}:</span>{" "}
+                  <span className="line-through text-slate-400">
+                    {inputText(c.from)}
+                  </span>{" "}
+                  → <span className="font-medium">{inputText(c.to)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+// src/components/TornadoChart.tsx
+import { useState } from "react";
+import type { TornadoRow } from "../lib/sensitivity";
+
+const TOP_ROWS = 12;
+
+/**
+ * One bar per input, spanning the lowest to the highest score that input can
+ * reach on its own. The line marks today's score: red is downside, green is
+ * upside.
+ */
+export function TornadoChart({
+  rows,
+  base,
+}: {
+  rows: TornadoRow[];
+  base: number;
+}) {
+  const [showAll, setShowAll] = useState(false);
+  const shown = showAll ? rows : rows.slice(0, TOP_ROWS);
+
+  if (rows.length === 0)
+    return (
+      <p className="text-xs text-slate-500">
+        No single input moves the score right now.
+      </p>
+    );
+
+  return (
+    <div className="space-y-1">
+      {shown.map((r) => {
+        const lo = Math.min(r.low.score, base);
+        const hi = Math.max(r.high.score, base);
+        return (
+          <div
+            key={r.key}
+            className="grid grid-cols-12 gap-2 items-center text-xs"
+            title={`${r.label}: ${r.low.value} → ${r.low.score}, ${r.high.value} → ${r.high.score}`}
+          >
+            <div className="col-span-4 md:col-span-3 truncate text-slate-600">
+              {r.label}
+            </div>
+            <div className="col-span-1 text-right tabular-nums text-red-700">
+              {r.low.score}
+            </div>
+            <div className="col-span-6 md:col-span-7 relative h-4 bg-slate-100 rounded">
+              <div
+                className="absolute inset-y-0 bg-red-300 rounded-l"
+                style={{ left: `${lo}%`, width: `${base - lo}%` }}
+              />
+              <div
+                className="absolute inset-y-0 bg-green-300 rounded-r"
+                style={{ left: `${base}%`, width: `${hi - base}%` }}
+              />
+              <div
+                className="absolute inset-y-0 w-px bg-slate-700"
+                style={{ left: `${base}%` }}
+              />
+            </div>
+            <div className="col-span-1 tabular-nums text-green-700">
+              {r.high.score}
+            </div>
+          </div>
+        );
+      })}
+      <div className="flex items-center justify-between pt-1 text-xs text-slate-500">
+        <span>
+          Each input swung across its range (money inputs ±50%), everything else
+          held at today's values.
+        </span>
+        {rows.length > TOP_ROWS && (
+          <button
+            type="button"
+            className="underline text-slate-600"
+            onClick={() => setShowAll(!showAll)}
+          >
+            {showAll ? "Show top inputs" : `Show all ${rows.length}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,160 @@
+// src/components/WeightsEditor.tsx
+import { useState } from "react";
+import { DEFAULT_COEFFICIENTS } from "../lib/coefficients";
+import { INPUT_LABELS } from "../lib/fields";
+import { pct } from "../lib/format";
+import type { BuyInputs } from "../lib/scoring";
+import {
+  effectiveWeights,
+  findProfile,
+  isBuiltInProfile,
+  normalizeWeights,
+  rebalance,
+  sameWeights,
+  weightsOf,
+  WEIGHT_KEYS,
+  type WeightKey,
+  type WeightProfile,
+} from "../lib/weights";
+import { Select, Slider, Toggle } from "./ui";
+
+type WeightFields = Pick<
+  BuyInputs,
+  WeightKey | "normalizeWeights" | "weightProfile" | "coefficients"
+>;
+
+/**
+ * Profile picker plus one slider per pillar. With normalization on the
+ * sliders are linked: moving one rebalances the other two so they always
+ * sum to 1.
+ */
+export function WeightsEditor({
+  value,
+  profiles,
+  onChange,
+  onSaveProfile,
+  onDeleteProfile,
+}: {
+  value: WeightFields;
+  profiles: WeightProfile[];
+  onChange: (patch: Partial<WeightFields>) => void;
+  onSaveProfile: (profile: WeightProfile) => void;
+  onDeleteProfile: (name: string) => void;
+}) {
+  const [newName, setNewName] = useState("");
+  const weights = weightsOf(value);
+  const effective = effectiveWeights(value);
+  const sum = WEIGHT_KEYS.reduce((total, k) => total + weights[k], 0);
+  const profile = findProfile(profiles, value.weightProfile);
+  const modified = profile && !sameWeights(profile.weights, weights);
+
+  // The profile stays attached so the picker can show it as modified.
+  const setWeight = (key: WeightKey) => (v: number) =>
+    onChange(
+      value.normalizeWeights ? rebalance(weights, key, v) : { [key]: v }
+    );
+
+  const pickProfile = (name: string) => {
+    const p = findProfile(profiles, name);
+    onChange(
+      p
+        ? {
+            ...p.weights,
+            coefficients: p.coefficients ?? DEFAULT_COEFFICIENTS,
+            weightProfile: name,
+          }
+        : { weightProfile: "" }
+    );
+  };
+
+  const setNormalize = (on: boolean) =>
+    onChange(
+      on
+        ? { ...normalizeWeights(weights), normalizeWeights: true }
+        : { normalizeWeights: false }
+    );
+
+  const saveProfile = () => {
+    const name = newName.trim();
+    if (!name || isBuiltInProfile(name)) return;
+    onSaveProfile({ name, weights });
+    onChange({ weightProfile: name });
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 items-end">
+        <Select
+          label="Profile"
+          value={profile ? profile.name : ""}
+          onChange={pickProfile}
+          options={[
+            ...profiles.map((p) => ({ key: p.name, label: p.name })),
+            { key: "", label: "Custom" },
+          ]}
+          hint={
+            profile && modified ? `modified from ${profile.name}` : undefined
+          }
+        />
+        <Toggle
+          label="Normalize (sum to 1)"
+          checked={value.normalizeWeights}
+          onChange={setNormalize}
+          hint="Linked sliders"
+        />
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {WEIGHT_KEYS.map((k) => (
+          <Slider
+            key={k}
+            label={INPUT_LABELS[k]}
+            value={weights[k]}
+            onChange={setWeight(k)}
+            min={0}
+            max={1}
+            step={0.05}
+            suffixFn={(v) =>
+              value.normalizeWeights ? pct(effective[k] * 100) : v.toFixed(2)
+            }
+          />
+        ))}
+      </div>
+      {!value.normalizeWeights && (
+        <p
+          className={`text-xs ${
+            Math.abs(sum - 1) < 0.01 ? "text-slate-500" : "text-red-600"
+          }`}
+        >
+          Weights should sum to ~1. Current: {sum.toFixed(2)}
+        </p>
+      )}
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          className="rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0 text-sm"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Profile name"
+          aria-label="New profile name"
+        />
+        <button
+          type="button"
+          className="btn-ghost"
+          disabled={!newName.trim() || isBuiltInProfile(newName.trim())}
+          onClick={saveProfile}
+        >
+          Save as profile
+        </button>
+        {profile && !isBuiltInProfile(profile.name) && (
+          <button
+            type="button"
+            className="btn-danger"
+            onClick={() => onDeleteProfile(profile.name)}
+          >
+            Delete “{profile.name}”
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
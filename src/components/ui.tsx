@@ -0,0 +1,213 @@
+// src/components/ui.tsx
+import React from "react";
+
+// ---------- Reusable UI ----------
+export function Section({
+  title,
+  children,
+  subtitle,
+}: {
+  title: string;
+  children: React.ReactNode;
+  subtitle?: string;
+}) {
+  return (
+    <div className="card p-5 space-y-3 border border-slate-200">
+      <div>
+        <h2 className="text-xl font-semibold tracking-tight">{title}</h2>
+        {subtitle && <p className="text-sm text-slate-500 mt-1">{subtitle}</p>}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+export function LabeledNumber({
+  label,
+  value,
+  onChange,
+  min = 0,
+  max = 100000,
+  step = 1,
+  hint,
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  hint?: string;
+}) {
+  return (
+    <label className="block">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium text-slate-700">{label}</span>
+        {hint && <span className="text-xs text-slate-500">{hint}</span>}
+      </div>
+      <input
+        type="number"
+        className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0"
+        value={Number.isFinite(value) ? value : ""}
+        onChange={(e) => onChange(Number(e.target.value))}
+        min={min}
+        max={max}
+        step={step}
+      />
+    </label>
+  );
+}
+
+export function Slider({
+  label,
+  value,
+  onChange,
+  min = 0,
+  max = 10,
+  step = 1,
+  suffixFn = (v: number) => String(v),
+}: {
+  label: string;
+  value: number;
+  onChange: (v: number) => void;
+  min?: number;
+  max?: number;
+  step?: number;
+  suffixFn?: (v: number) => string;
+}) {
+  return (
+    <label className="block">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium text-slate-700">{label}</span>
+        <span className="text-xs text-slate-500">{suffixFn(value)}</span>
+      </div>
+      <input
+        type="range"
+        className="mt-2 w-full"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(Number(e.target.value))}
+      />
+    </label>
+  );
+}
+
+export function Toggle({
+  label,
+  checked,
+  onChange,
+  hint,
+}: {
+  label: string;
+  checked: boolean;
+  onChange: (v: boolean) => void;
+  hint?: string;
+}) {
+  return (
+    <div className="flex items-center justify-between">
+      <div>
+        <div className="text-sm font-medium text-slate-700">{label}</div>
+        {hint && <div className="text-xs text-slate-500">{hint}</div>}
+      </div>
+      <button
+        className={`relative inline-flex h-6 w-11 items-center rounded-full transition ${
+          checked ? "bg-slate-900" : "bg-slate-300"
+        }`}
+        onClick={() => onChange(!checked)}
+        type="button"
+        aria-pressed={checked}
+      >
+        <span
+          className={`inline-block h-5 w-5 transform rounded-full bg-white transition ${
+            checked ? "translate-x-6" : "translate-x-1"
+          }`}
+        />
+      </button>
+    </div>
+  );
+}
+
+export function Select<T extends string>({
+  label,
+  value,
+  onChange,
+  options,
+  hint,
+}: {
+  label: string;
+  value: T;
+  onChange: (v: T) => void;
+  options: { key: T; label: string }[];
+  hint?: string;
+}) {
+  return (
+    <label className="block">
+      <div className="flex items-baseline justify-between">
+        <span className="text-sm font-medium text-slate-700">{label}</span>
+        {hint && <span className="text-xs text-slate-500">{hint}</span>}
+      </div>
+      <select
+        className="mt-1 w-full rounded-xl border-slate-200 focus:border-slate-400 focus:ring-0 bg-white"
+        value={value}
+        onChange={(e) => onChange(e.target.value as T)}
+      >
+        {options.map((o) => (
+          <option key={o.key} value={o.key}>
+            {o.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
+
+export function Pill({
+  children,
+  tone = "gray",
+}: {
+  children: React.ReactNode;
+  tone?: "gray" | "green" | "yellow" | "red" | "blue";
+}) {
+  const tones: Record<string, string> = {
+    gray: "bg-slate-100 text-slate-800",
+    green: "bg-green-100 text-green-800",
+    yellow: "bg-yellow-100 text-yellow-800",
+    red: "bg-red-100 text-red-800",
+    blue: "bg-blue-100 text-blue-800",
+  };
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium ${tones[tone]}`}
+    >
+      {children}
+    </span>
+  );
+}
+
+export function ScoreBar({ label, value }: { label: string; value: number }) {
+  const v = Math.max(0, Math.min(100, Math.round(value)));
+  return (
+    <div>
+      <div className="flex items-center justify-between text-xs mb-1">
+        <span className="font-medium text-slate-700">{label}</span>
+        <span className="tabular-nums text-slate-500">{v}/100</span>
+      </div>
+      <div className="h-2.5 w-full rounded-full bg-slate-200 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-slate-900 to-slate-600"
+          style={{ width: `${v}%` }}
+        />
+      </div>
+    </div>
+  );
+}
+
+export function Chip({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center rounded-full bg-slate-100 text-slate-700 text-xs px-2 py-1">
+      {children}
+    </span>
+  );
+}
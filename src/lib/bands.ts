@@ -0,0 +1,68 @@
+// src/lib/bands.ts
+import { isRecord } from "./guards";
+import { VERDICT_BANDS, type VerdictBand, type VerdictTone } from "./scoring";
+
+/**
+ * User-defined verdict bands. A band set is a list of cutoffs checked from
+ * the highest down; scores below every cutoff get the lowest band, so its
+ * own cutoff is effectively 0.
+ */
+
+export const MAX_BANDS = 8;
+
+export const VERDICT_TONE_OPTIONS: { key: VerdictTone; label: string }[] = [
+  { key: "green", label: "Green" },
+  { key: "blue", label: "Blue" },
+  { key: "yellow", label: "Yellow" },
+  { key: "red", label: "Red" },
+  { key: "gray", label: "Gray" },
+];
+
+const isTone = (v: unknown): v is VerdictTone =>
+  VERDICT_TONE_OPTIONS.some((o) => o.key === v);
+
+const isBand = (v: unknown): v is VerdictBand =>
+  isRecord(v) &&
+  typeof v.label === "string" &&
+  v.label.trim() !== "" &&
+  isTone(v.tone) &&
+  typeof v.min === "number" &&
+  Number.isFinite(v.min);
+
+/** Highest cutoff first, the lowest band catching everything below. */
+export const normalizeBands = (bands: VerdictBand[]): VerdictBand[] => {
+  const sorted = [...bands].sort((a, b) => b.min - a.min);
+  return sorted.map((b, i) => (i === sorted.length - 1 ? { ...b, min: 0 } : b));
+};
+
+/** A usable band set, or null if `raw` isn't one. */
+export function parseBands(raw: unknown): VerdictBand[] | null {
+  if (!Array.isArray(raw) || raw.length === 0 || raw.length > MAX_BANDS)
+    return null;
+  if (!raw.every(isBand)) return null;
+  return normalizeBands(
+    raw.map(({ min, label, tone }) => ({ min, label, tone }))
+  );
+}
+
+export const sameBands = (a: VerdictBand[], b: VerdictBand[]) =>
+  JSON.stringify(normalizeBands(a)) === JSON.stringify(normalizeBands(b));
+
+export const isDefaultBands = (bands: VerdictBand[]) =>
+  sameBands(bands, VERDICT_BANDS);
+
+/** "Buy ≥ 85 · Buy used ≥ 70 · … · Skip for now" */
+export const describeBands = (bands: VerdictBand[]) =>
+  normalizeBands(bands)
+    .map((b, i, all) =>
+      i === all.length - 1 ? b.label : `${b.label} ≥ ${b.min}`
+    )
+    .join(" · ");
+
+/** Colour of a saved verdict label within the band set that produced it. */
+export const toneForLabel = (bands: VerdictBand[], label: string) =>
+  bands.find((b) => b.label === label)?.tone ?? "gray";
+
+/** Green and blue verdicts lean towards buying. */
+export const isBuyTone = (tone: VerdictTone) =>
+  tone === "green" || tone === "blue";
@@ -0,0 +1,178 @@
+// src/lib/breakeven.ts
+import type { BudgetContext } from "./budget";
+import {
+  scoreBuy,
+  VERDICT_BANDS,
+  type BuyInputs,
+  type VerdictBand,
+  type VerdictTone,
+} from "./scoring";
+
+/**
+ * "What would make this a Buy?"
+ * For each verdict band, hold everything else constant and find the value of
+ * one lever that just reaches the band's threshold. Price, uses and resale
+ * price move the score in one direction only, so a bisection over their
+ * range is enough. Months owned doesn't (running costs pile up while resale
+ * value drops), so its whole-month range is scanned instead.
+ */
+
+type LeverKey = "price" | "usesPerWeek" | "monthsOwn" | "expectSalePrice";
+
+type Lever = {
+  key: LeverKey;
+  /** "max": the score falls as the value rises (price). "min": it rises. */
+  direction: "max" | "min";
+  /** Search range for the current inputs. */
+  range: (s: BuyInputs) => { lo: number; hi: number };
+  /** Answers are rounded to this step, towards the safe side. */
+  step: number;
+  /** Try every step instead of bisecting (the score isn't monotone). */
+  scan?: boolean;
+};
+
+const LEVERS: Lever[] = [
+  {
+    key: "price",
+    direction: "max",
+    range: (s) => ({ lo: 0, hi: Math.max(100, s.price * 10) }),
+    step: 1,
+  },
+  {
+    key: "usesPerWeek",
+    direction: "min",
+    range: (s) => ({ lo: 0, hi: Math.max(50, s.usesPerWeek * 10) }),
+    step: 0.1,
+  },
+  {
+    key: "monthsOwn",
+    direction: "min",
+    range: (s) => ({ lo: 1, hi: Math.max(240, Math.ceil(s.monthsOwn) * 10) }),
+    step: 1,
+    scan: true,
+  },
+  {
+    key: "expectSalePrice",
+    direction: "min",
+    range: (s) => ({ lo: 0, hi: Math.max(100, s.price * 3) }),
+    step: 1,
+  },
+];
+
+const BISECT_STEPS = 40;
+
+export type BreakEven = {
+  key: LeverKey;
+  direction: "max" | "min";
+  /** The threshold value, or null when no value in range reaches the band. */
+  value: number | null;
+  /** True when even the far end of the range still reaches the band. */
+  unbounded: boolean;
+  /**
+   * Scanned levers: last value of the run that reaches the band, when the
+   * score drops out of it again before the end of the range.
+   */
+  until?: number;
+  /** The current value already reaches the band. */
+  met: boolean;
+};
+
+export type BandBreakEven = {
+  label: string;
+  tone: VerdictTone;
+  min: number;
+  levers: BreakEven[];
+};
+
+const scoreWith = (
+  s: BuyInputs,
+  key: LeverKey,
+  value: number,
+  budget: BudgetContext | null
+) => scoreBuy({ ...s, [key]: value }, { budget }).decisionScore;
+
+/** First run of steps in [lo, hi] that reaches the band. */
+function scanLever(
+  lo: number,
+  hi: number,
+  step: number,
+  reaches: (v: number) => boolean
+): Pick<BreakEven, "value" | "unbounded" | "until"> {
+  let first: number | null = null;
+  for (let v = lo; v <= hi; v += step) {
+    if (reaches(v)) first ??= v;
+    else if (first !== null)
+      return { value: first, unbounded: false, until: v - step };
+  }
+  return { value: first, unbounded: first === lo };
+}
+
+function solveLever(
+  s: BuyInputs,
+  lever: Lever,
+  target: number,
+  budget: BudgetContext | null
+): BreakEven {
+  const { key, direction, step } = lever;
+  const { lo, hi } = lever.range(s);
+  const reaches = (v: number) => scoreWith(s, key, v, budget) >= target;
+  // The end of the range that scores best, and the one that scores worst.
+  const [good, bad] = direction === "max" ? [lo, hi] : [hi, lo];
+  const base = { key, direction, met: reaches(s[key]) };
+  if (lever.scan) return { ...base, ...scanLever(lo, hi, step, reaches) };
+
+  if (!reaches(good)) return { ...base, value: null, unbounded: false };
+  if (reaches(bad)) return { ...base, value: bad, unbounded: true };
+
+  let ok = good;
+  let notOk = bad;
+  for (let i = 0; i < BISECT_STEPS; i++) {
+    const mid = (ok + notOk) / 2;
+    if (reaches(mid)) ok = mid;
+    else notOk = mid;
+  }
+  const rounded =
+    direction === "max"
+      ? Math.floor(ok / step) * step
+      : Math.ceil(ok / step) * step;
+  const value = Math.round(rounded * 100) / 100;
+  return { ...base, value: reaches(value) ? value : ok, unbounded: false };
+}
+
+/** Break-even values for every band above the bottom one. */
+export const breakEvenFor = (
+  inputs: BuyInputs,
+  bands: VerdictBand[] = VERDICT_BANDS,
+  budget: BudgetContext | null = null
+): BandBreakEven[] =>
+  bands.slice(0, -1).map((b) => ({
+    label: b.label,
+    tone: b.tone,
+    min: b.min,
+    levers: LEVERS.map((l) => solveLever(inputs, l, b.min, budget)),
+  }));
+
+export const LEVER_LABELS: Record<LeverKey, string> = {
+  price: "price",
+  usesPerWeek: "uses/week",
+  monthsOwn: "months owned",
+  expectSalePrice: "resale price",
+};
+
+const isMoney = (key: LeverKey) => key === "price" || key === "expectSalePrice";
+
+/** "price ≤ $420", "no resale price gets there", "any months owned"… */
+export function describeBreakEven(
+  b: BreakEven,
+  money: (n: number) => string
+): string {
+  const name = LEVER_LABELS[b.key];
+  if (b.value === null) return `no ${name} gets there`;
+  const value = isMoney(b.key) ? money(b.value) : String(b.value);
+  if (b.until !== undefined) return `${name} ${value}–${b.until}`;
+  if (b.unbounded)
+    return b.direction === "max"
+      ? `any ${name} (checked up to ${value})`
+      : `any ${name}`;
+  return `${name} ${b.direction === "max" ? "≤" : "≥"} ${value}`;
+}
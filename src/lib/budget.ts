@@ -0,0 +1,153 @@
+// src/lib/budget.ts
+import { financingCost, type FinancingCost } from "./financing";
+import { isRecord } from "./guards";
+import type { BuyInputs, BuyResult } from "./scoring";
+import type { Entry } from "./storage";
+import { taxBreakdown } from "./tax";
+
+/**
+ * Budget pain from real numbers. With a budget profile set up, the app
+ * compares what this purchase takes out of the current month with what's
+ * left of the discretionary budget (after the savings goal and everything
+ * already marked as bought this month), and uses that instead of the
+ * slider — unless the scenario keeps its pain set by hand. The engine
+ * derives it on every scoring pass (see `budget` in ScenarioOverrides), so
+ * what-if re-scores at another price feel the budget too.
+ */
+
+export type BudgetProfile = {
+  enabled: boolean;
+  /** Discretionary spending per month. */
+  monthlyBudget: number;
+  /** Set aside every month before anything discretionary. */
+  savingsGoal: number;
+  /** Net (after-tax) income per hour of work. */
+  hourlyIncome: number;
+};
+
+export const DEFAULT_BUDGET: BudgetProfile = {
+  enabled: false,
+  monthlyBudget: 500,
+  savingsGoal: 100,
+  hourlyIncome: 25,
+};
+
+export const isBudgetProfile = (v: unknown): v is BudgetProfile =>
+  isRecord(v) &&
+  typeof v.enabled === "boolean" &&
+  ["monthlyBudget", "savingsGoal", "hourlyIncome"].every((k) => {
+    const n = v[k];
+    return typeof n === "number" && Number.isFinite(n) && n >= 0;
+  });
+
+/** What a purchase takes out of the month it's made in. */
+export const monthlyOutlay = (f: FinancingCost) =>
+  f.method === "cash" ? f.payment : f.monthlyPayment;
+
+export type LedgerItem = {
+  id: string;
+  name: string;
+  boughtAt: number;
+  outlay: number;
+};
+
+const sameMonth = (a: number, b: number) => {
+  const x = new Date(a);
+  const y = new Date(b);
+  return x.getFullYear() === y.getFullYear() && x.getMonth() === y.getMonth();
+};
+
+/**
+ * Entries bought this calendar month (and not returned), in `currency` (amounts in
+ * other currencies aren't converted, so they're left out). `excludeId` is
+ * the scenario being weighed, so it isn't counted twice.
+ */
+export function ledgerFor(
+  entries: Entry[],
+  currency: string,
+  excludeId: string | null = null,
+  now: number = Date.now()
+): LedgerItem[] {
+  return entries.flatMap((e) => {
+    const boughtAt = e.statusDates.bought;
+    if (
+      e.status !== "bought" ||
+      boughtAt === undefined ||
+      e.id === excludeId ||
+      e.currency !== currency ||
+      !sameMonth(boughtAt, now)
+    )
+      return [];
+    const sticker = taxBreakdown(e.inputs, e.inputs.price).total;
+    const outlay = monthlyOutlay(financingCost(e.inputs, sticker));
+    return [{ id: e.id, name: e.name, boughtAt, outlay }];
+  });
+}
+
+/** The month a scenario is weighed against. */
+export type BudgetContext = {
+  /** Already spent this month (the ledger). */
+  spent: number;
+  /** Budget − savings goal − spent. */
+  available: number;
+};
+
+export function budgetContextFor(
+  profile: BudgetProfile,
+  ledger: LedgerItem[]
+): BudgetContext {
+  const spent = ledger.reduce((sum, l) => sum + l.outlay, 0);
+  return {
+    spent,
+    available: profile.monthlyBudget - profile.savingsGoal - spent,
+  };
+}
+
+/** The share of what's left that `outlay` eats: all of it (or more) = 10. */
+export const budgetPainFor = (outlay: number, budget: BudgetContext) =>
+  outlay <= 0
+    ? 0
+    : budget.available <= 0
+      ? 10
+      : Math.round(Math.min(10, (outlay / budget.available) * 10) * 10) / 10;
+
+export type BudgetImpact = BudgetContext & {
+  /** This purchase's share of the month. */
+  outlay: number;
+  /** What's left after this purchase (negative = over budget). */
+  remaining: number;
+  /** Sticker cost in hours of work (null without an hourly income). */
+  hours: number | null;
+  /** Derived budget pain, 0–10. */
+  pain: number;
+};
+
+export function budgetImpactFor(
+  profile: BudgetProfile,
+  budget: BudgetContext,
+  result: Pick<BuyResult, "financing" | "stickerCost">
+): BudgetImpact {
+  const outlay = monthlyOutlay(result.financing);
+  return {
+    ...budget,
+    outlay,
+    remaining: budget.available - outlay,
+    hours:
+      profile.hourlyIncome > 0
+        ? result.stickerCost / profile.hourlyIncome
+        : null,
+    pain: budgetPainFor(outlay, budget),
+  };
+}
+
+/**
+ * Inputs as saved and shared: the flag keeps the link to the budget, and
+ * `budgetImpact` holds the pain last derived, for readers without one.
+ */
+export const withBudget = (
+  inputs: BuyInputs,
+  impact: BudgetImpact | null
+): BuyInputs =>
+  impact && !inputs.budgetManual
+    ? { ...inputs, budgetImpact: impact.pain }
+    : inputs;
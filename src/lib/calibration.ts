@@ -0,0 +1,193 @@
+// src/lib/calibration.ts
+import { isBuyTone, normalizeBands } from "./bands";
+import { wasBought } from "./outcomes";
+import { scoreBuy, type VerdictBand } from "./scoring";
+import type { Entry } from "./storage";
+import { WEIGHT_KEYS, type Weights } from "./weights";
+
+/**
+ * Fit pillar weights (and optionally the buy cutoff of the verdict bands)
+ * to the outcomes logged in History. Everything runs locally: every weight
+ * split on a 0.05 grid is tried against the reviewed entries, with a pull
+ * towards the current weights that fades as more outcomes come in.
+ */
+
+export const MIN_OUTCOMES = 3;
+
+/** Name of the weight profile suggested weights are saved as. */
+export const CALIBRATED_PROFILE = "Calibrated";
+
+/** Grid steps per unit weight (0.05). */
+const GRID = 20;
+/** Strength of the pull towards the current weights (per outcome). */
+const SHRINK = 0.5;
+
+/**
+ * 0–100: how good buying turned out. For skipped or waited entries it's
+ * read the other way — glad you skipped means buying wouldn't have been.
+ */
+export const outcomeTarget = (e: Entry): number | null => {
+  if (!e.outcome || e.status === "considering") return null;
+  const sat = Math.max(0, Math.min(10, e.outcome.satisfaction)) * 10;
+  return wasBought(e.status) ? sat : 100 - sat;
+};
+
+/** Lowest score the bands call buy-leaning (green or blue), if any. */
+export const buyCutoff = (bands: VerdictBand[]): number | null => {
+  const buying = normalizeBands(bands).filter((b) => isBuyTone(b.tone));
+  return buying.length > 0 ? Math.min(...buying.map((b) => b.min)) : null;
+};
+
+type Sample = {
+  pillars: Weights;
+  target: number;
+  /** Score and buy cutoff the entry was actually decided with. */
+  decided: number;
+  decidedCutoff: number;
+};
+
+const samplesFor = (entries: Entry[]): Sample[] =>
+  entries.flatMap((e) => {
+    const target = outcomeTarget(e);
+    if (target === null) return [];
+    const r = scoreBuy(e.inputs);
+    return [
+      {
+        pillars: {
+          wFinancial: r.financialScore,
+          wUtility: r.utilityScore,
+          wRisk: r.riskScore,
+        },
+        target,
+        decided: e.outputs.decisionScore,
+        decidedCutoff: buyCutoff(e.bands) ?? 50,
+      },
+    ];
+  });
+
+const scoreWith = (w: Weights, p: Weights) =>
+  WEIGHT_KEYS.reduce((sum, k) => sum + w[k] * p[k], 0);
+
+export type Fit = {
+  /** Share of entries where "buy-leaning" matched a good outcome (0–1). */
+  agreement: number;
+  /** Average distance between score and outcome, in points. */
+  meanMiss: number;
+};
+
+const fitOf = (
+  samples: Sample[],
+  score: (s: Sample) => number,
+  cutoff: (s: Sample) => number
+): Fit => ({
+  agreement:
+    samples.filter((s) => score(s) >= cutoff(s) === s.target >= 50).length /
+    samples.length,
+  meanMiss:
+    samples.reduce((sum, s) => sum + Math.abs(score(s) - s.target), 0) /
+    samples.length,
+});
+
+export type Calibration = {
+  /** Reviewed entries the fit is based on. */
+  count: number;
+  weights: Weights;
+  /** As decided: saved scores and bands. */
+  before: Fit;
+  /** Suggested weights, current bands. */
+  after: Fit;
+  /**
+   * Current bands with the buy cutoff moved, and the fit of suggested
+   * weights and bands together (null if nothing to move).
+   */
+  shifted: { bands: VerdictBand[]; fit: Fit } | null;
+};
+
+/** Null until there are at least MIN_OUTCOMES reviewed entries. */
+export function calibrate(
+  entries: Entry[],
+  prior: Weights,
+  bands: VerdictBand[]
+): Calibration | null {
+  const samples = samplesFor(entries);
+  if (samples.length < MIN_OUTCOMES) return null;
+
+  const shrink = SHRINK / samples.length;
+  const lossOf = (weights: Weights) => {
+    const mse =
+      samples.reduce(
+        (sum, s) => sum + (scoreWith(weights, s.pillars) - s.target) ** 2,
+        0
+      ) / samples.length;
+    const pull = WEIGHT_KEYS.reduce(
+      (sum, k) => sum + ((weights[k] - prior[k]) * 100) ** 2,
+      0
+    );
+    return mse + shrink * pull;
+  };
+  // Starting from the current weights, only a better grid point replaces them.
+  let best = { weights: prior, loss: lossOf(prior) };
+  for (let f = 0; f <= GRID; f++) {
+    for (let u = 0; u <= GRID - f; u++) {
+      const weights: Weights = {
+        wFinancial: f / GRID,
+        wUtility: u / GRID,
+        wRisk: (GRID - f - u) / GRID,
+      };
+      const loss = lossOf(weights);
+      if (loss < best.loss) best = { weights, loss };
+    }
+  }
+  const { weights } = best;
+  const fitted = (s: Sample) => scoreWith(weights, s.pillars);
+
+  const current = buyCutoff(bands);
+  const before = fitOf(
+    samples,
+    (s) => s.decided,
+    (s) => s.decidedCutoff
+  );
+  const after = fitOf(samples, fitted, () => current ?? 50);
+  if (current === null)
+    return {
+      count: samples.length,
+      weights,
+      before,
+      after,
+      shifted: null,
+    };
+
+  // Best-agreeing cutoff; ties go to the one closest to the current cutoff.
+  let cutoff = current;
+  let cutoffFit = after;
+  for (let t = 1; t < 100; t++) {
+    const fit = fitOf(samples, fitted, () => t);
+    if (
+      fit.agreement > cutoffFit.agreement ||
+      (fit.agreement === cutoffFit.agreement &&
+        Math.abs(t - current) < Math.abs(cutoff - current))
+    ) {
+      cutoff = t;
+      cutoffFit = fit;
+    }
+  }
+  const shift = cutoff - current;
+  return {
+    count: samples.length,
+    weights,
+    before,
+    after,
+    shifted:
+      shift === 0
+        ? null
+        : {
+            bands: normalizeBands(
+              bands.map((b) => ({
+                ...b,
+                min: Math.max(0, Math.min(100, b.min + shift)),
+              }))
+            ),
+            fit: cutoffFit,
+          },
+  };
+}
@@ -0,0 +1,183 @@
+// src/lib/coefficients.ts
+import { isRecord } from "./guards";
+
+/**
+ * The numbers inside the three pillar formulas. They travel with the
+ * scenario (BuyInputs.coefficients) so every analysis — sensitivity, wait,
+ * simulation, break-even — scores with the same formulas, and a saved entry
+ * can always be re-scored the way it was decided.
+ */
+
+export type Coefficients = {
+  // Financial pillar
+  fAffordability: number;
+  fUsage: number;
+  fPriceDrag: number;
+  /** Share of the resale-strength score added when resale is aggressive. */
+  fResaleBonus: number;
+  cpuGreatBelow: number;
+  cpuGreatBonus: number;
+  cpuGoodBelow: number;
+  cpuGoodBonus: number;
+
+  // Utility pillar
+  uNeed: number;
+  uFrequency: number;
+  uJoy: number;
+  uWorkBonus: number;
+  uResaleNudgeScale: number;
+  uResaleNudgeMax: number;
+
+  // Risk pillar
+  rReturns: number;
+  rWarranty: number;
+  rSpace: number;
+  rAlternatives: number;
+  rUrgency: number;
+
+  // Multipliers turning 0–10 inputs into 0–100 points (also used for the
+  // driver bars in the decision summary)
+  mBudget: number;
+  mFrequency: number;
+  mLongevity: number;
+  mPriceDrag: number;
+  mNeed: number;
+  mJoy: number;
+  mReturns: number;
+  mWarranty: number;
+  mSpace: number;
+  mAlternatives: number;
+  mUrgency: number;
+};
+
+export const DEFAULT_COEFFICIENTS: Coefficients = {
+  fAffordability: 0.43,
+  fUsage: 0.32,
+  fPriceDrag: 0.2,
+  fResaleBonus: 0.2,
+  cpuGreatBelow: 1,
+  cpuGreatBonus: 8,
+  cpuGoodBelow: 3,
+  cpuGoodBonus: 5,
+
+  uNeed: 0.4,
+  uFrequency: 0.35,
+  uJoy: 0.25,
+  uWorkBonus: 10,
+  uResaleNudgeScale: 50,
+  uResaleNudgeMax: 10,
+
+  rReturns: 0.3,
+  rWarranty: 0.25,
+  rSpace: 0.25,
+  rAlternatives: 0.1,
+  rUrgency: 0.1,
+
+  mBudget: 10,
+  mFrequency: 8,
+  mLongevity: 4,
+  mPriceDrag: 50,
+  mNeed: 10,
+  mJoy: 10,
+  mReturns: 10,
+  mWarranty: 8,
+  mSpace: 8,
+  mAlternatives: 7,
+  mUrgency: 6,
+};
+
+export type CoefficientKey = keyof Coefficients;
+
+export type CoefficientGroup = {
+  title: string;
+  fields: { key: CoefficientKey; label: string; step: number }[];
+};
+
+export const COEFFICIENT_GROUPS: CoefficientGroup[] = [
+  {
+    title: "Financial",
+    fields: [
+      { key: "fAffordability", label: "× Affordability", step: 0.01 },
+      { key: "fUsage", label: "× Usage", step: 0.01 },
+      { key: "fPriceDrag", label: "× Price drag", step: 0.01 },
+      {
+        key: "fResaleBonus",
+        label: "× Resale strength (aggressive)",
+        step: 0.01,
+      },
+      { key: "cpuGreatBelow", label: "Per-use under (great)", step: 0.5 },
+      { key: "cpuGreatBonus", label: "Great per-use bonus", step: 1 },
+      { key: "cpuGoodBelow", label: "Per-use under (good)", step: 0.5 },
+      { key: "cpuGoodBonus", label: "Good per-use bonus", step: 1 },
+    ],
+  },
+  {
+    title: "Utility & Joy",
+    fields: [
+      { key: "uNeed", label: "× Need", step: 0.01 },
+      { key: "uFrequency", label: "× Frequency", step: 0.01 },
+      { key: "uJoy", label: "× Joy", step: 0.01 },
+      { key: "uWorkBonus", label: "Work-related bonus", step: 1 },
+      { key: "uResaleNudgeScale", label: "Resale nudge scale", step: 1 },
+      { key: "uResaleNudgeMax", label: "Resale nudge cap", step: 1 },
+    ],
+  },
+  {
+    title: "Risk & Logistics",
+    fields: [
+      { key: "rReturns", label: "× Returns", step: 0.01 },
+      { key: "rWarranty", label: "× Warranty", step: 0.01 },
+      { key: "rSpace", label: "× Space fit", step: 0.01 },
+      { key: "rAlternatives", label: "× Alternatives", step: 0.01 },
+      { key: "rUrgency", label: "× Urgency", step: 0.01 },
+    ],
+  },
+  {
+    title: "Input multipliers (0–10 → points)",
+    fields: [
+      { key: "mBudget", label: "Budget pain", step: 1 },
+      { key: "mFrequency", label: "Use frequency", step: 1 },
+      { key: "mLongevity", label: "Longevity", step: 1 },
+      { key: "mPriceDrag", label: "Price drag (per cost ratio)", step: 1 },
+      { key: "mNeed", label: "Need", step: 1 },
+      { key: "mJoy", label: "Joy", step: 1 },
+      { key: "mReturns", label: "Return policy", step: 1 },
+      { key: "mWarranty", label: "Warranty", step: 1 },
+      { key: "mSpace", label: "Space fit", step: 1 },
+      { key: "mAlternatives", label: "Alternatives", step: 1 },
+      { key: "mUrgency", label: "Urgency", step: 1 },
+    ],
+  },
+];
+
+const COEFFICIENT_KEYS = Object.keys(DEFAULT_COEFFICIENTS) as CoefficientKey[];
+
+export const isCoefficients = (v: unknown): v is Coefficients =>
+  isRecord(v) &&
+  COEFFICIENT_KEYS.every(
+    (k) => typeof v[k] === "number" && Number.isFinite(v[k])
+  );
+
+export const isDefaultCoefficients = (c: Coefficients) =>
+  COEFFICIENT_KEYS.every((k) => c[k] === DEFAULT_COEFFICIENTS[k]);
+
+const n = (v: number) => String(Math.round(v * 1000) / 1000);
+
+/** The pillar formulas with the given coefficients filled in. */
+export const pillarFormulas = (c: Coefficients, symbol: string) => ({
+  financial:
+    `${n(c.fAffordability)}×(100 − Budget×${n(c.mBudget)})` +
+    ` + ${n(c.fUsage)}×(Frequency×${n(c.mFrequency)} + Longevity×${n(c.mLongevity)})` +
+    ` + ${n(c.fPriceDrag)}×(100 − Effective∕Price×${n(c.mPriceDrag)})` +
+    ` + ${n(c.cpuGreatBonus)} if per-use < ${symbol}${n(c.cpuGreatBelow)}` +
+    ` (${n(c.cpuGoodBonus)} if < ${symbol}${n(c.cpuGoodBelow)})` +
+    ` [+ ${n(c.fResaleBonus)}×ResaleStrength if aggressive]`,
+  utility:
+    `${n(c.uNeed)}×Need×${n(c.mNeed)} + ${n(c.uFrequency)}×Frequency×${n(c.mFrequency)}` +
+    ` + ${n(c.uJoy)}×Joy×${n(c.mJoy)} + ${n(c.uWorkBonus)} if work-related` +
+    ` [+ min(${n(c.uResaleNudgeMax)}, Offset∕Sticker×${n(c.uResaleNudgeScale)}) if aggressive]`,
+  risk:
+    `${n(c.rReturns)}×Returns×${n(c.mReturns)} + ${n(c.rWarranty)}×Warranty×${n(c.mWarranty)}` +
+    ` + ${n(c.rSpace)}×Space×${n(c.mSpace)} + ${n(c.rAlternatives)}×(100 − Alternatives×${n(c.mAlternatives)})` +
+    ` + ${n(c.rUrgency)}×Urgency×${n(c.mUrgency)} − Clutter`,
+});
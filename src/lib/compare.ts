@@ -0,0 +1,104 @@
+// src/lib/compare.ts
+import { INPUT_KEYS, INPUT_LABELS } from "./fields";
+import { scoreBuy, type BuyInputs, type BuyResult } from "./scoring";
+import type { Entry } from "./storage";
+
+/**
+ * Side-by-side comparison of saved entries. Results are recomputed from each
+ * entry's inputs so every column uses the same (current) formulas.
+ */
+
+export const COMPARE_MIN = 2;
+export const COMPARE_MAX = 4;
+
+export type MetricRow = {
+  key: keyof BuyResult;
+  label: string;
+  format: "money" | "score";
+  values: number[];
+  /** Column indexes holding the best value (ties all win). */
+  winners: number[];
+};
+
+export type InputRow = {
+  key: keyof BuyInputs;
+  label: string;
+  values: BuyInputs[keyof BuyInputs][];
+  differs: boolean;
+};
+
+export type Comparison = {
+  results: BuyResult[];
+  metrics: MetricRow[];
+  inputs: InputRow[];
+};
+
+const METRICS: {
+  key: keyof BuyResult;
+  label: string;
+  format: MetricRow["format"];
+  better: "low" | "high";
+}[] = [
+  { key: "stickerCost", label: "Sticker cost", format: "money", better: "low" },
+  {
+    key: "effectiveCost",
+    label: "Effective cost",
+    format: "money",
+    better: "low",
+  },
+  { key: "costPerUse", label: "Cost per use", format: "money", better: "low" },
+  {
+    key: "financialScore",
+    label: "Financial",
+    format: "score",
+    better: "high",
+  },
+  {
+    key: "utilityScore",
+    label: "Utility & Joy",
+    format: "score",
+    better: "high",
+  },
+  {
+    key: "riskScore",
+    label: "Risk & Logistics",
+    format: "score",
+    better: "high",
+  },
+  {
+    key: "decisionScore",
+    label: "Decision score",
+    format: "score",
+    better: "high",
+  },
+];
+
+const winnersOf = (values: number[], better: "low" | "high") => {
+  const best = better === "low" ? Math.min(...values) : Math.max(...values);
+  // Nothing to highlight when every column is the same.
+  if (values.every((v) => Math.abs(v - best) < 1e-9)) return [];
+  return values.flatMap((v, i) => (Math.abs(v - best) < 1e-9 ? [i] : []));
+};
+
+export function compareEntries(entries: Entry[]): Comparison {
+  const results = entries.map((e) => scoreBuy(e.inputs, {}, e.bands));
+  const metrics = METRICS.map(({ key, label, format, better }) => {
+    const values = results.map((r) => {
+      const v = r[key] as number;
+      return format === "score" ? Math.round(v) : v;
+    });
+    return { key, label, format, values, winners: winnersOf(values, better) };
+  });
+  const inputs = INPUT_KEYS.map((key) => {
+    const values = entries.map((e) => e.inputs[key]);
+    return {
+      key,
+      label: INPUT_LABELS[key],
+      values,
+      differs: values.some(
+        (v) => JSON.stringify(v) !== JSON.stringify(values[0])
+      ),
+    };
+  });
+  return { results, metrics, inputs };
+}
@@ -0,0 +1,105 @@
+// src/lib/coolingoff.ts
+import { isRecord } from "./guards";
+import type { Entry } from "./storage";
+
+/**
+ * "Sleep on it": new entries above a price start in a cooling-off period.
+ * Their verdict is provisional until the revisit date, and re-evaluating
+ * after that records how the score moved since the first look.
+ */
+
+export type CoolingOffRule = {
+  enabled: boolean;
+  /** Entries priced above this (pre-tax, settings currency) cool off. */
+  minPrice: number;
+  days: number;
+};
+
+export const DEFAULT_COOLING_OFF: CoolingOffRule = {
+  enabled: false,
+  minPrice: 200,
+  days: 7,
+};
+
+export const isCoolingOffRule = (v: unknown): v is CoolingOffRule =>
+  isRecord(v) &&
+  typeof v.enabled === "boolean" &&
+  typeof v.minPrice === "number" &&
+  Number.isFinite(v.minPrice) &&
+  v.minPrice >= 0 &&
+  typeof v.days === "number" &&
+  Number.isInteger(v.days) &&
+  v.days >= 1;
+
+export type ScoreSnapshot = {
+  at: number;
+  decisionScore: number;
+  verdict: string;
+};
+
+export type CoolingOff = {
+  /** Revisit date. */
+  until: number;
+  first: ScoreSnapshot;
+  /** Set when the entry is re-evaluated after `until`. */
+  revisit?: ScoreSnapshot;
+};
+
+const isSnapshot = (v: unknown): v is ScoreSnapshot =>
+  isRecord(v) &&
+  typeof v.at === "number" &&
+  Number.isFinite(v.at) &&
+  typeof v.decisionScore === "number" &&
+  Number.isFinite(v.decisionScore) &&
+  typeof v.verdict === "string";
+
+export const isCoolingOff = (v: unknown): v is CoolingOff =>
+  isRecord(v) &&
+  typeof v.until === "number" &&
+  Number.isFinite(v.until) &&
+  isSnapshot(v.first) &&
+  (v.revisit === undefined || isSnapshot(v.revisit));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The cooling-off period a new entry starts with, if the rule applies. */
+export const startCoolingOff = (
+  rule: CoolingOffRule,
+  price: number,
+  first: ScoreSnapshot
+): CoolingOff | undefined =>
+  rule.enabled && price > rule.minPrice
+    ? { until: first.at + rule.days * DAY_MS, first }
+    : undefined;
+
+/** An entry that started with a cooling-off period. */
+export type CoolingEntry = Entry & { coolingOff: CoolingOff };
+
+/** Still sleeping on it: the verdict is provisional. */
+export const isProvisional = (
+  e: Entry,
+  now: number = Date.now()
+): e is CoolingEntry =>
+  !!e.coolingOff &&
+  !e.coolingOff.revisit &&
+  now < e.coolingOff.until &&
+  e.status === "considering";
+
+/** Slept on it, but not re-evaluated yet. */
+export const isDueForRevisit = (
+  e: Entry,
+  now: number = Date.now()
+): e is CoolingEntry =>
+  !!e.coolingOff &&
+  !e.coolingOff.revisit &&
+  now >= e.coolingOff.until &&
+  e.status === "considering";
+
+/** Record the re-evaluation once the revisit date has passed. */
+export const withRevisit = (
+  coolingOff: CoolingOff | undefined,
+  snapshot: ScoreSnapshot
+): CoolingOff | undefined =>
+  coolingOff && !coolingOff.revisit && snapshot.at >= coolingOff.until
+    ? { ...coolingOff, revisit: snapshot }
+    : coolingOff;
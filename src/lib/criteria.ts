@@ -0,0 +1,73 @@
+// src/lib/criteria.ts
+import { isRecord } from "./guards";
+
+/**
+ * User-defined criteria (brand trust, repairability, partner approval…).
+ * Each one is a 0–10 rating that takes `weight` of its pillar: the pillar
+ * score becomes (1 − Σweights)×formula + Σ weight×criterion points, so it
+ * stays on the same 0–100 scale.
+ */
+
+export type Pillar = "financial" | "utility" | "risk";
+export type CriterionDirection = "higher" | "lower";
+
+export type CustomCriterion = {
+  name: string;
+  /** 0–10 rating. */
+  value: number;
+  /** Whether a higher rating is better or worse. */
+  direction: CriterionDirection;
+  /** Share of the pillar score, 0–1. */
+  weight: number;
+  pillar: Pillar;
+};
+
+export const PILLAR_OPTIONS: { key: Pillar; label: string }[] = [
+  { key: "financial", label: "Financial" },
+  { key: "utility", label: "Utility & Joy" },
+  { key: "risk", label: "Risk & Logistics" },
+];
+
+export const DIRECTION_OPTIONS: { key: CriterionDirection; label: string }[] = [
+  { key: "higher", label: "Higher is better" },
+  { key: "lower", label: "Lower is better" },
+];
+
+const clamp01 = (v: number) => Math.max(0, Math.min(1, v));
+
+/** 0–100 points for one criterion. */
+export const criterionPoints = (c: CustomCriterion) => {
+  const v = Math.max(0, Math.min(10, c.value));
+  return (c.direction === "higher" ? v : 10 - v) * 10;
+};
+
+export const criteriaFor = (criteria: CustomCriterion[], pillar: Pillar) =>
+  criteria.filter((c) => c.pillar === pillar);
+
+/** Blend a pillar's formula score with its custom criteria. */
+export function withCriteria(
+  base: number,
+  criteria: CustomCriterion[],
+  pillar: Pillar
+): number {
+  const own = criteriaFor(criteria, pillar);
+  const total = own.reduce((sum, c) => sum + clamp01(c.weight), 0);
+  if (total === 0) return base;
+  // Weights beyond 1 in total are scaled down so the formula never goes negative.
+  const scale = total > 1 ? 1 / total : 1;
+  const custom = own.reduce(
+    (sum, c) => sum + clamp01(c.weight) * scale * criterionPoints(c),
+    0
+  );
+  return (1 - Math.min(1, total)) * base + custom;
+}
+
+export const isCriterion = (v: unknown): v is CustomCriterion =>
+  isRecord(v) &&
+  typeof v.name === "string" &&
+  typeof v.value === "number" &&
+  Number.isFinite(v.value) &&
+  typeof v.weight === "number" &&
+  Number.isFinite(v.weight) &&
+  DIRECTION_OPTIONS.some((o) => o.key === v.direction) &&
+  PILLAR_OPTIONS.some((o) => o.key === v.pillar);
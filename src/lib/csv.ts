@@ -0,0 +1,73 @@
+// src/lib/csv.ts
+
+/**
+ * Minimal RFC 4180 CSV: comma separated, CRLF rows, fields quoted when they
+ * contain a comma, quote, newline or edge whitespace.
+ */
+
+const needsQuotes = /[",\r\n]|^\s|\s$/;
+
+export const escapeCsvField = (value: string) =>
+  needsQuotes.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export function toCsv(rows: string[][]): string {
+  return rows.map((r) => r.map(escapeCsvField).join(",")).join("\r\n");
+}
+
+export function parseCsv(text: string): string[][] {
+  const src = text.startsWith("\uFEFF") ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (inQuotes) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') inQuotes = false;
+      else field += ch;
+    } else if (ch === '"') inQuotes = true;
+    else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else field += ch;
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Drop blank lines (a single empty field).
+  return rows.filter((r) => r.length > 1 || r[0] !== "");
+}
+
+/**
+ * Text starting with = + - @ (or a tab/CR) runs as a formula in spreadsheet
+ * apps; a leading ' keeps it text. Export with csvText, read back with
+ * fromCsvText.
+ */
+const formulaStart = /^[=+\-@\t\r]/;
+
+export const csvText = (value: string) =>
+  formulaStart.test(value) ? `'${value}` : value;
+
+export const fromCsvText = (cell: string) =>
+  cell.startsWith("'") && formulaStart.test(cell.slice(1))
+    ? cell.slice(1)
+    : cell;
+
+/** Locale-independent number formatting (always "." and no grouping). */
+export const csvNumber = (n: number, digits?: number) =>
+  Number.isFinite(n)
+    ? digits === undefined
+      ? String(n)
+      : n.toFixed(digits)
+    : "";
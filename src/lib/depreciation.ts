@@ -0,0 +1,51 @@
+// src/lib/depreciation.ts
+
+/**
+ * Resale of the *new* item once you're done with it (after `monthsOwn`).
+ * Value follows a simple two-stage curve per category — a steeper first-year
+ * drop, then a steady yearly decline — scaled by the condition you expect to
+ * sell it in (see scoreBuy). The trade-in of the old item is a separate
+ * flow (Sell-to-Offset).
+ */
+
+export const CATEGORY_PRESETS = [
+  { key: "electronics", label: "Electronics", firstYearPct: 35, yearlyPct: 20 },
+  { key: "phones", label: "Phones & tablets", firstYearPct: 40, yearlyPct: 25 },
+  { key: "computers", label: "Computers", firstYearPct: 30, yearlyPct: 20 },
+  { key: "appliances", label: "Appliances", firstYearPct: 30, yearlyPct: 12 },
+  { key: "furniture", label: "Furniture", firstYearPct: 45, yearlyPct: 10 },
+  { key: "tools", label: "Tools & outdoor", firstYearPct: 25, yearlyPct: 8 },
+  {
+    key: "bikes",
+    label: "Bikes & sports gear",
+    firstYearPct: 25,
+    yearlyPct: 10,
+  },
+  {
+    key: "clothing",
+    label: "Clothing & shoes",
+    firstYearPct: 60,
+    yearlyPct: 20,
+  },
+  {
+    key: "instruments",
+    label: "Musical instruments",
+    firstYearPct: 20,
+    yearlyPct: 5,
+  },
+  { key: "other", label: "Other", firstYearPct: 35, yearlyPct: 15 },
+] as const;
+
+export type CategoryKey = (typeof CATEGORY_PRESETS)[number]["key"];
+
+export const categoryFor = (key: CategoryKey) =>
+  CATEGORY_PRESETS.find((c) => c.key === key) ?? CATEGORY_PRESETS[0];
+
+/** Share of the purchase price the item is still worth after `months`. */
+export function residualShare(key: CategoryKey, months: number): number {
+  const { firstYearPct, yearlyPct } = categoryFor(key);
+  const years = Math.max(0, months) / 12;
+  const firstYear = 1 - firstYearPct / 100;
+  if (years <= 1) return 1 - (firstYearPct / 100) * years;
+  return firstYear * Math.pow(1 - yearlyPct / 100, years - 1);
+}
@@ -0,0 +1,157 @@
+// src/lib/fields.ts
+import { isDefaultCoefficients } from "./coefficients";
+import type { BuyInputs } from "./scoring";
+
+/** Human labels for every input, in form order. */
+export const INPUT_LABELS: Record<keyof BuyInputs, string> = {
+  itemName: "Item name",
+  price: "Price (pre-tax)",
+  taxRegion: "Tax region",
+  taxRatePct: "Custom sales tax %",
+  fees: "Flat fees",
+  paymentMethod: "Payment method",
+  financeAprPct: "Financing APR %",
+  financeMonths: "Months to pay off",
+  bnplInstallments: "BNPL installments",
+  financeFees: "Financing fees",
+  budgetImpact: "Budget pain",
+  budgetManual: "Budget pain set by hand",
+  needLevel: "Need level",
+  useFrequency: "Use frequency",
+  joyScore: "Joy/delight",
+  longevity: "Longevity",
+  workRelated: "Work related",
+  expectSalePrice: "Expected sale price",
+  saleProbabilityPct: "Probability of sale %",
+  platformFees: "Platform fees",
+  shipCost: "Shipping & packaging",
+  timeHours: "Selling time (hours)",
+  hourlyValue: "Time value (per hour)",
+  friction: "Friction/misc cost",
+  resaleAggressive: "Aggressive resale influence",
+  condKey: "Condition",
+  demandKey: "Demand",
+  resaleNewItem: "Resell the new item later",
+  categoryKey: "Category",
+  resaleCondKey: "Condition when resold",
+  newResaleProbPct: "Chance of reselling %",
+  newResaleFeesPct: "Resale fees %",
+  simulateWait: "Simulate waiting",
+  targetDiscountPct: "Target price drop %",
+  monthsToWait: "Months to wait",
+  saleChancePct: "Chance the sale happens %",
+  priceDriftPctPerYear: "Price drift %/yr",
+  simulateResale: "Simulate resale uncertainty",
+  salePriceSpreadPct: "Sale price spread ±%",
+  saleProbSpreadPct: "Sale probability spread ±%",
+  timeSpreadPct: "Selling time spread ±%",
+  feesSpreadPct: "Fees spread ±%",
+  monthsOwn: "Months owned",
+  usesPerWeek: "Uses per week",
+  recurringCosts: "Recurring costs",
+  keepOldItem: "Keeping the old item",
+  minimalismStrength: "Minimalism penalty",
+  returnPolicy: "Return policy",
+  warranty: "Warranty/support",
+  spaceFit: "Space fit",
+  altAvailable: "Good alternatives exist",
+  urgency: "Urgency",
+  wFinancial: "Weight: Financial",
+  wUtility: "Weight: Utility/Joy",
+  wRisk: "Weight: Risk/Logistics",
+  normalizeWeights: "Normalize weights",
+  weightProfile: "Weight profile",
+  coefficients: "Formula coefficients",
+  criteria: "Custom criteria",
+};
+
+export const INPUT_KEYS = Object.keys(INPUT_LABELS) as (keyof BuyInputs)[];
+
+/** Short display text for any input value (comparison and diff tables). */
+export const inputText = (v: BuyInputs[keyof BuyInputs]) => {
+  if (typeof v === "boolean") return v ? "Yes" : "No";
+  if (Array.isArray(v))
+    return v.length === 0
+      ? "—"
+      : v
+          .map((x) =>
+            "per" in x
+              ? `${x.label || "Cost"} ${x.amount}/${x.per}`
+              : "amount" in x
+                ? `${x.label || "Fee"} ${x.amount}`
+                : `${x.name || "Criterion"} ${x.value}`
+          )
+          .join(", ");
+  if (typeof v === "object")
+    return isDefaultCoefficients(v) ? "Default" : "Custom";
+  return String(v);
+};
+
+export type NumericKey = {
+  [K in keyof BuyInputs]: BuyInputs[K] extends number ? K : never;
+}[keyof BuyInputs];
+
+/**
+ * Plausible range per numeric input: absolute bounds for sliders and
+ * scores, or ±% of the current value for open-ended money amounts.
+ */
+export type InputRange = { min: number; max: number } | { relPct: number };
+
+const SLIDER = { min: 0, max: 10 };
+const MONEY = { relPct: 50 };
+const PCT = { min: 0, max: 100 };
+const WEIGHT = { min: 0, max: 1 };
+
+export const INPUT_RANGES: Record<NumericKey, InputRange> = {
+  price: MONEY,
+  taxRatePct: { min: 0, max: 30 },
+  financeAprPct: { min: 0, max: 36 },
+  financeMonths: { min: 1, max: 60 },
+  bnplInstallments: { min: 2, max: 12 },
+  financeFees: MONEY,
+  budgetImpact: SLIDER,
+  needLevel: SLIDER,
+  useFrequency: SLIDER,
+  joyScore: SLIDER,
+  longevity: SLIDER,
+  expectSalePrice: MONEY,
+  saleProbabilityPct: PCT,
+  platformFees: MONEY,
+  shipCost: MONEY,
+  timeHours: MONEY,
+  hourlyValue: MONEY,
+  friction: MONEY,
+  newResaleProbPct: PCT,
+  newResaleFeesPct: { min: 0, max: 30 },
+  targetDiscountPct: { min: 0, max: 40 },
+  monthsToWait: { min: 0, max: 24 },
+  saleChancePct: PCT,
+  priceDriftPctPerYear: { min: -50, max: 50 },
+  salePriceSpreadPct: PCT,
+  saleProbSpreadPct: PCT,
+  timeSpreadPct: PCT,
+  feesSpreadPct: PCT,
+  monthsOwn: { min: 1, max: 120 },
+  usesPerWeek: { min: 1, max: 21 },
+  minimalismStrength: { min: 0, max: 12 },
+  returnPolicy: SLIDER,
+  warranty: SLIDER,
+  spaceFit: SLIDER,
+  altAvailable: SLIDER,
+  urgency: SLIDER,
+  wFinancial: WEIGHT,
+  wUtility: WEIGHT,
+  wRisk: WEIGHT,
+};
+
+export const rangeFor = (key: NumericKey, current: number) => {
+  const r = INPUT_RANGES[key];
+  if ("relPct" in r) {
+    const d = Math.abs(current) * (r.relPct / 100);
+    return { min: Math.max(0, current - d), max: current + d };
+  }
+  return r;
+};
+
+export const isNumericKey = (key: keyof BuyInputs): key is NumericKey =>
+  key in INPUT_RANGES;
@@ -0,0 +1,20 @@
+// src/lib/files.ts
+
+/** Trigger a browser download of some text content. */
+export function downloadText(
+  filename: string,
+  content: string,
+  type = "application/json"
+) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  URL.revokeObjectURL(url);
+}
+
+/** yyyy-mm-dd for filenames. */
+export const fileDate = (d = new Date()) => d.toISOString().slice(0, 10);
@@ -0,0 +1,86 @@
+// src/lib/financing.ts
+import type { BuyInputs } from "./scoring";
+
+/**
+ * Paying for the sticker: cash, a credit card balance carried for a while,
+ * store financing, or buy-now-pay-later installments. Whatever the credit
+ * costs (interest + fees) is added to the effective cost, so it also shows
+ * up in cost per use and the financial sub-score.
+ */
+
+export type PaymentMethod = "cash" | "card" | "store" | "bnpl";
+
+export const PAYMENT_METHOD_OPTIONS: { key: PaymentMethod; label: string }[] = [
+  { key: "cash", label: "Cash / debit (paid in full)" },
+  { key: "card", label: "Credit card, carried balance" },
+  { key: "store", label: "Store financing" },
+  { key: "bnpl", label: "Buy now, pay later" },
+];
+
+/** BNPL plans charge every two weeks. */
+const BNPL_PAYMENTS_PER_YEAR = 26;
+
+export type FinancingCost = {
+  method: PaymentMethod;
+  /** Number of payments. */
+  payments: number;
+  /** Amount of each payment. */
+  payment: number;
+  /** Average paid per month (equals `payment` for monthly plans). */
+  monthlyPayment: number;
+  interest: number;
+  fees: number;
+  /** Interest + fees: what borrowing adds on top of the sticker. */
+  costOfCredit: number;
+};
+
+/** Level payment that pays off `principal` in `n` periods at rate `r`. */
+const levelPayment = (principal: number, r: number, n: number) =>
+  r > 0 ? (principal * r) / (1 - Math.pow(1 + r, -n)) : principal / n;
+
+export function financingCost(
+  inputs: BuyInputs,
+  principal: number
+): FinancingCost {
+  const s = inputs;
+  if (s.paymentMethod === "cash" || principal <= 0) {
+    return {
+      method: s.paymentMethod,
+      payments: 1,
+      payment: principal,
+      monthlyPayment: principal,
+      interest: 0,
+      fees: 0,
+      costOfCredit: 0,
+    };
+  }
+  const perYear = s.paymentMethod === "bnpl" ? BNPL_PAYMENTS_PER_YEAR : 12;
+  const payments = Math.max(
+    1,
+    Math.round(
+      s.paymentMethod === "bnpl" ? s.bnplInstallments : s.financeMonths
+    )
+  );
+  const r = Math.max(0, s.financeAprPct) / 100 / perYear;
+  const payment = levelPayment(principal, r, payments);
+  const interest = payment * payments - principal;
+  const fees = Math.max(0, s.financeFees);
+  return {
+    method: s.paymentMethod,
+    payments,
+    payment,
+    monthlyPayment: (payment * perYear) / 12,
+    interest,
+    fees,
+    costOfCredit: interest + fees,
+  };
+}
+
+/** "12 × $45.20/mo" or "4 × $125.00 every 2 weeks". */
+export const describePayments = (
+  f: FinancingCost,
+  money: (n: number) => string
+) =>
+  `${f.payments} × ${money(f.payment)}${
+    f.method === "bnpl" ? " every 2 weeks" : "/mo"
+  }`;
@@ -0,0 +1,70 @@
+// src/lib/format.ts
+
+// ---------- Formatting ----------
+export type MoneyFormat = {
+  /** ISO 4217 code, e.g. "CAD". */
+  currency: string;
+  /** BCP 47 tag; "" means the browser default. */
+  locale: string;
+};
+
+export const DEFAULT_MONEY: MoneyFormat = { currency: "CAD", locale: "" };
+
+export const CURRENCY_OPTIONS = [
+  "CAD",
+  "USD",
+  "EUR",
+  "GBP",
+  "AUD",
+  "NZD",
+  "CHF",
+  "SEK",
+  "JPY",
+  "INR",
+  "MXN",
+].map((key) => ({ key, label: key }));
+
+export const LOCALE_OPTIONS = [
+  { key: "", label: "Browser default" },
+  { key: "en-CA", label: "English (Canada)" },
+  { key: "fr-CA", label: "Français (Canada)" },
+  { key: "en-US", label: "English (US)" },
+  { key: "en-GB", label: "English (UK)" },
+  { key: "de-DE", label: "Deutsch" },
+  { key: "fr-FR", label: "Français (France)" },
+  { key: "es-ES", label: "Español" },
+  { key: "ja-JP", label: "日本語" },
+];
+
+export const isCurrencyCode = (code: unknown): code is string => {
+  if (typeof code !== "string" || !/^[A-Z]{3}$/.test(code)) return false;
+  try {
+    new Intl.NumberFormat(undefined, { style: "currency", currency: code });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const formatMoney = (n: number, money: MoneyFormat = DEFAULT_MONEY) =>
+  isFinite(n)
+    ? n.toLocaleString(money.locale || undefined, {
+        style: "currency",
+        currency: money.currency,
+      })
+    : "—";
+
+/** "$", "€", "CA$"… for labels like "Your time value ($/hr)". */
+export const currencySymbol = (money: MoneyFormat = DEFAULT_MONEY) =>
+  new Intl.NumberFormat(money.locale || undefined, {
+    style: "currency",
+    currency: money.currency,
+  })
+    .formatToParts(0)
+    .find((p) => p.type === "currency")?.value ?? money.currency;
+
+export const pct = (n: number) => `${Math.round(n)}%`;
+
+/** "+6", "−3" or "0". */
+export const signed = (n: number) =>
+  `${n > 0 ? "+" : n < 0 ? "−" : ""}${Math.abs(n)}`;
@@ -0,0 +1,9 @@
+// src/lib/guards.ts
+
+/**
+ * Shape checks shared by the validators. No imports, so engine modules
+ * (which schema.ts itself depends on) can use them without a cycle.
+ */
+
+export const isRecord = (v: unknown): v is Record<string, unknown> =>
+  typeof v === "object" && v !== null && !Array.isArray(v);
@@ -0,0 +1,104 @@
+// src/lib/outcomes.ts
+import { isBuyTone, toneForLabel } from "./bands";
+import { isRecord } from "./guards";
+import { scoreBuy } from "./scoring";
+import type { Entry } from "./storage";
+
+/**
+ * What happened after the decision. Each entry moves through statuses
+ * (considering → bought / skipped / waited → returned), and once a decision
+ * has had time to play out the user logs how it actually went: real usage
+ * and satisfaction/regret. That is what the predictions are checked against.
+ */
+
+export type EntryStatus =
+  "considering" | "bought" | "skipped" | "waited" | "returned";
+
+export const STATUS_OPTIONS: { key: EntryStatus; label: string }[] = [
+  { key: "considering", label: "Considering" },
+  { key: "bought", label: "Bought" },
+  { key: "skipped", label: "Skipped" },
+  { key: "waited", label: "Waited" },
+  { key: "returned", label: "Returned" },
+];
+
+export const statusLabel = (status: EntryStatus) =>
+  STATUS_OPTIONS.find((o) => o.key === status)?.label ?? status;
+
+export const isStatus = (v: unknown): v is EntryStatus =>
+  STATUS_OPTIONS.some((o) => o.key === v);
+
+/** When each status was (last) reached. */
+export type StatusDates = Partial<Record<EntryStatus, number>>;
+
+export const parseStatusDates = (v: unknown): StatusDates =>
+  isRecord(v)
+    ? Object.fromEntries(
+        Object.entries(v).filter(
+          (e): e is [EntryStatus, number] =>
+            isStatus(e[0]) && typeof e[1] === "number" && Number.isFinite(e[1])
+        )
+      )
+    : {};
+
+export type DecisionOutcome = {
+  loggedAt: number;
+  /** Actual uses per week (bought or returned items). */
+  usesPerWeek: number;
+  /** 0–10: how happy you are with the decision. */
+  satisfaction: number;
+  /** You'd decide differently if you could do it again. */
+  regret: boolean;
+};
+
+export const isOutcome = (v: unknown): v is DecisionOutcome =>
+  isRecord(v) &&
+  ["loggedAt", "usesPerWeek", "satisfaction"].every(
+    (k) => typeof v[k] === "number" && Number.isFinite(v[k])
+  ) &&
+  typeof v.regret === "boolean";
+
+/** Statuses that got the item into your hands. */
+export const wasBought = (status: EntryStatus) =>
+  status === "bought" || status === "returned";
+
+/** Statuses worth a look back once they've had time to play out. */
+const REVIEWABLE: EntryStatus[] = ["bought", "skipped", "waited", "returned"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Decided at least `days` ago and not reviewed since. */
+export function isDueForReview(
+  e: Entry,
+  days: number,
+  now: number = Date.now()
+): boolean {
+  if (!REVIEWABLE.includes(e.status)) return false;
+  const decidedAt = e.statusDates[e.status];
+  if (decidedAt === undefined) return false;
+  if (e.outcome && e.outcome.loggedAt >= decidedAt) return false;
+  return now - decidedAt >= days * DAY_MS;
+}
+
+/**
+ * Cost per use with the usage you actually logged. Null unless the item was
+ * bought and kept: a returned item didn't cost its effective cost.
+ */
+export const actualCostPerUse = (e: Entry): number | null =>
+  e.outcome && e.status === "bought"
+    ? scoreBuy({ ...e.inputs, usesPerWeek: e.outcome.usesPerWeek }).costPerUse
+    : null;
+
+export const verdictSaidBuy = (e: Entry) =>
+  isBuyTone(toneForLabel(e.bands, e.outputs.verdict));
+
+/**
+ * Whether the verdict turned out right: following it and not regretting
+ * it, or going against it and regretting that. Null until there's an
+ * outcome (or while still considering).
+ */
+export function verdictWasRight(e: Entry): boolean | null {
+  if (!e.outcome || e.status === "considering") return null;
+  const followed = verdictSaidBuy(e) === wasBought(e.status);
+  return followed !== e.outcome.regret;
+}
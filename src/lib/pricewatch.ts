@@ -0,0 +1,71 @@
+// src/lib/pricewatch.ts
+import { normalizeBands } from "./bands";
+import { isRecord } from "./guards";
+import { bandIndexFor, scoreBuy, type BuyResult } from "./scoring";
+import type { Entry } from "./storage";
+
+/**
+ * Prices seen while waiting, logged by hand per entry. The entry is
+ * re-scored at the latest and the lowest observed price, and the wait
+ * target (price − targetDiscountPct) is checked against what was seen.
+ */
+
+export type PriceObservation = {
+  /** Day the price was seen (timestamp). */
+  at: number;
+  /** Pre-tax price, like BuyInputs.price. */
+  price: number;
+  retailer: string;
+};
+
+export const isPriceObservation = (v: unknown): v is PriceObservation =>
+  isRecord(v) &&
+  typeof v.at === "number" &&
+  Number.isFinite(v.at) &&
+  typeof v.price === "number" &&
+  Number.isFinite(v.price) &&
+  v.price >= 0 &&
+  typeof v.retailer === "string";
+
+/** Oldest first. */
+export const sortPrices = (prices: PriceObservation[]) =>
+  [...prices].sort((a, b) => a.at - b.at);
+
+export type PriceWatch = {
+  latest: PriceObservation;
+  lowest: PriceObservation;
+  /** Price at which the wait target is met. */
+  target: number;
+  targetReached: boolean;
+  atLatest: BuyResult;
+  atLowest: BuyResult;
+  /** The latest price reaches the top band; the saved verdict didn't. */
+  becameBuy: boolean;
+};
+
+export const targetPriceFor = (e: Entry) =>
+  e.inputs.price * (1 - e.inputs.targetDiscountPct / 100);
+
+/** Null while nothing has been logged. */
+export function priceWatchFor(e: Entry): PriceWatch | null {
+  if (e.prices.length === 0) return null;
+  const sorted = sortPrices(e.prices);
+  const latest = sorted[sorted.length - 1];
+  const lowest = sorted.reduce((a, b) => (b.price < a.price ? b : a));
+  const target = targetPriceFor(e);
+  const rescore = (price: number) =>
+    scoreBuy({ ...e.inputs, price }, {}, e.bands);
+  const atLatest = rescore(latest.price);
+  const bands = normalizeBands(e.bands);
+  return {
+    latest,
+    lowest,
+    target,
+    targetReached: lowest.price <= target,
+    atLatest,
+    atLowest: rescore(lowest.price),
+    becameBuy:
+      bandIndexFor(atLatest.decisionScore, bands) === 0 &&
+      bandIndexFor(e.outputs.decisionScore, bands) !== 0,
+  };
+}
@@ -0,0 +1,36 @@
+// src/lib/revisions.ts
+import { INPUT_KEYS, INPUT_LABELS } from "./fields";
+import type { BuyInputs } from "./scoring";
+import type { EntryOutputs } from "./storage";
+
+/**
+ * Every save of an entry is kept as a revision (inputs + outputs), so you
+ * can see how an idea evolved, diff two versions and restore an old one.
+ */
+
+/** Oldest revisions are dropped past this, to keep localStorage small. */
+export const MAX_REVISIONS = 30;
+
+export type Revision = {
+  at: number;
+  inputs: BuyInputs;
+  outputs: EntryOutputs;
+};
+
+export const appendRevision = (revisions: Revision[], rev: Revision) =>
+  [...revisions, rev].slice(-MAX_REVISIONS);
+
+export type InputChange = {
+  key: keyof BuyInputs;
+  label: string;
+  from: BuyInputs[keyof BuyInputs];
+  to: BuyInputs[keyof BuyInputs];
+};
+
+/** Inputs that differ between two revisions, in form order. */
+export const diffInputs = (a: BuyInputs, b: BuyInputs): InputChange[] =>
+  INPUT_KEYS.flatMap((key) =>
+    JSON.stringify(a[key]) === JSON.stringify(b[key])
+      ? []
+      : [{ key, label: INPUT_LABELS[key], from: a[key], to: b[key] }]
+  );
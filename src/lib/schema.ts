@@ -0,0 +1,83 @@
+// src/lib/schema.ts
+import {
+  BLANK_INPUTS,
+  CONDITION_PRESETS,
+  DEMAND_PRESETS,
+  type BuyInputs,
+} from "./scoring";
+import { TAX_REGION_KEYS } from "./tax";
+import { isCoefficients } from "./coefficients";
+import { isCriterion } from "./criteria";
+import { CATEGORY_PRESETS } from "./depreciation";
+import { isRecurringCost } from "./tco";
+import { PAYMENT_METHOD_OPTIONS } from "./financing";
+import { isRecord } from "./guards";
+
+/**
+ * Runtime validation for BuyInputs coming from outside the app
+ * (localStorage, imported files, shared links). Anything missing or of the
+ * wrong shape falls back to a default instead of leaking `undefined` into
+ * the form.
+ */
+
+const oneOf =
+  <T extends string>(keys: readonly T[]) =>
+  (v: unknown): v is T =>
+    typeof v === "string" && (keys as readonly string[]).includes(v);
+
+type Validators = { [K in keyof BuyInputs]?: (v: unknown) => boolean };
+
+/** Fields that need more than a `typeof` check against their default. */
+const VALIDATORS: Validators = {
+  condKey: oneOf(CONDITION_PRESETS.map((c) => c.key)),
+  demandKey: oneOf(DEMAND_PRESETS.map((d) => d.key)),
+  resaleCondKey: oneOf(CONDITION_PRESETS.map((c) => c.key)),
+  categoryKey: oneOf(CATEGORY_PRESETS.map((c) => c.key)),
+  taxRegion: oneOf(TAX_REGION_KEYS),
+  paymentMethod: oneOf(PAYMENT_METHOD_OPTIONS.map((o) => o.key)),
+  coefficients: isCoefficients,
+  criteria: (v) => Array.isArray(v) && v.every(isCriterion),
+  recurringCosts: (v) => Array.isArray(v) && v.every(isRecurringCost),
+  fees: (v) =>
+    Array.isArray(v) &&
+    v.every(
+      (f) =>
+        isRecord(f) &&
+        typeof f.label === "string" &&
+        typeof f.amount === "number" &&
+        Number.isFinite(f.amount) &&
+        typeof f.taxable === "boolean"
+    ),
+};
+
+const isValidField = <K extends keyof BuyInputs>(
+  key: K,
+  value: unknown,
+  fallback: BuyInputs[K]
+) => {
+  const custom = VALIDATORS[key];
+  if (custom) return custom(value);
+  if (typeof value !== typeof fallback) return false;
+  return typeof value !== "number" || Number.isFinite(value);
+};
+
+export type ParsedInputs = {
+  inputs: BuyInputs;
+  /** Keys that were missing or invalid and got their default. */
+  defaulted: (keyof BuyInputs)[];
+};
+
+export function parseInputs(
+  raw: unknown,
+  defaults: BuyInputs = BLANK_INPUTS
+): ParsedInputs {
+  const src = isRecord(raw) ? raw : {};
+  const inputs: Record<string, unknown> = { ...defaults };
+  const defaulted: (keyof BuyInputs)[] = [];
+  for (const key of Object.keys(defaults) as (keyof BuyInputs)[]) {
+    const value = src[key];
+    if (isValidField(key, value, defaults[key])) inputs[key] = value;
+    else defaulted.push(key);
+  }
+  return { inputs: inputs as BuyInputs, defaulted };
+}
@@ -0,0 +1,571 @@
+// src/lib/scoring.ts
+
+/**
+ * Buy-or-Not scoring engine.
+ * Pure functions only — no React, no storage. The component, the sensitivity
+ * panel and copySummary all go through `scoreBuy` so every number agrees.
+ */
+
+import {
+  CUSTOM_TAX_REGION,
+  taxBreakdown,
+  type FlatFee,
+  type TaxLine,
+} from "./tax";
+import { DEFAULT_PROFILE, effectiveWeights } from "./weights";
+import { DEFAULT_COEFFICIENTS, type Coefficients } from "./coefficients";
+import { withCriteria, type CustomCriterion } from "./criteria";
+import { residualShare, type CategoryKey } from "./depreciation";
+import { budgetPainFor, monthlyOutlay, type BudgetContext } from "./budget";
+import { runningCostsFor, type RecurringCost } from "./tco";
+import {
+  financingCost,
+  type FinancingCost,
+  type PaymentMethod,
+} from "./financing";
+
+// ---------- Helpers ----------
+export const clamp = (v: number, lo = 0, hi = 100) =>
+  Math.max(lo, Math.min(hi, v));
+
+// ---------- Presets ----------
+export const CONDITION_PRESETS = [
+  { key: "new", label: "New (unopened)", probMult: 1.0, priceMult: 1.0 },
+  { key: "like_new", label: "Like New", probMult: 1.05, priceMult: 0.95 },
+  { key: "good", label: "Good", probMult: 1.0, priceMult: 0.9 },
+  { key: "fair", label: "Fair", probMult: 0.85, priceMult: 0.8 },
+  { key: "poor", label: "Poor", probMult: 0.7, priceMult: 0.65 },
+] as const;
+
+export const DEMAND_PRESETS = [
+  { key: "high", label: "High demand", probMult: 1.15, timeHoursAdd: -0.5 },
+  { key: "medium", label: "Medium", probMult: 1.0, timeHoursAdd: 0 },
+  { key: "low", label: "Low demand", probMult: 0.8, timeHoursAdd: 0.75 },
+] as const;
+
+export type ConditionKey = (typeof CONDITION_PRESETS)[number]["key"];
+export type DemandKey = (typeof DEMAND_PRESETS)[number]["key"];
+
+// ---------- Types ----------
+export type BuyInputs = {
+  // Core
+  itemName: string;
+  price: number;
+  /** Key from TAX_REGIONS, or "custom" to use taxRatePct. */
+  taxRegion: string;
+  taxRatePct: number;
+  fees: FlatFee[];
+
+  // Payment (see financing.ts)
+  paymentMethod: PaymentMethod;
+  financeAprPct: number;
+  /** Months to pay off (card) or term (store financing). */
+  financeMonths: number;
+  bnplInstallments: number;
+  /** Setup/late/service fees for the plan, in total. */
+  financeFees: number;
+  budgetImpact: number;
+  /**
+   * Keep the budget pain slider even when a budget profile is set up
+   * (otherwise the app derives it, see src/lib/budget.ts).
+   */
+  budgetManual: boolean;
+  needLevel: number;
+  useFrequency: number;
+  joyScore: number;
+  longevity: number;
+  workRelated: boolean;
+
+  // Sell-to-offset
+  expectSalePrice: number;
+  saleProbabilityPct: number;
+  platformFees: number;
+  shipCost: number;
+  timeHours: number;
+  hourlyValue: number;
+  friction: number;
+  resaleAggressive: boolean;
+  condKey: ConditionKey;
+  demandKey: DemandKey;
+
+  // Resale of the new item after monthsOwn (see depreciation.ts)
+  resaleNewItem: boolean;
+  categoryKey: CategoryKey;
+  /** Condition you expect to sell it in. */
+  resaleCondKey: ConditionKey;
+  newResaleProbPct: number;
+  /** Marketplace fees and selling costs, as % of the sale price. */
+  newResaleFeesPct: number;
+
+  // Wait-for-sale
+  simulateWait: boolean;
+  targetDiscountPct: number;
+  monthsToWait: number;
+  /** Chance the target sale happens within monthsToWait. */
+  saleChancePct: number;
+  /** Expected change of the regular price per year (negative = cheaper). */
+  priceDriftPctPerYear: number;
+
+  // Uncertainty (Monte Carlo): ± spread around each resale estimate
+  simulateResale: boolean;
+  salePriceSpreadPct: number;
+  saleProbSpreadPct: number;
+  timeSpreadPct: number;
+  feesSpreadPct: number;
+
+  // Per-use
+  monthsOwn: number;
+  usesPerWeek: number;
+
+  // Total cost of ownership (see tco.ts)
+  recurringCosts: RecurringCost[];
+
+  // Minimalism nudge
+  keepOldItem: boolean;
+  minimalismStrength: number;
+
+  // Risk/logistics
+  returnPolicy: number;
+  warranty: number;
+  spaceFit: number;
+  altAvailable: number;
+  urgency: number;
+
+  // Weights
+  wFinancial: number;
+  wUtility: number;
+  wRisk: number;
+  /** Scale the weights to sum to 1 before scoring. */
+  normalizeWeights: boolean;
+  /** Name of the weight profile the weights came from ("" = custom). */
+  weightProfile: string;
+  /** Numbers inside the pillar formulas (see coefficients.ts). */
+  coefficients: Coefficients;
+
+  // Custom criteria (see criteria.ts)
+  criteria: CustomCriterion[];
+};
+
+export type VerdictTone = "green" | "blue" | "yellow" | "red" | "gray";
+export type Verdict = { label: string; tone: VerdictTone };
+export type VerdictBand = Verdict & { min: number };
+
+export type BuyResult = {
+  tax: number;
+  taxLines: TaxLine[];
+  fees: number;
+  stickerCost: number;
+  stickerCostWait: number;
+  adjSaleProb: number;
+  adjTimeHours: number;
+  adjSalePrice: number;
+  /** Expected net from selling the old item now (0 if you keep it). */
+  resaleOffset: number;
+  bestOffset: number;
+  /** Value of the new item at the end of monthsOwn. */
+  futureResaleValue: number;
+  /** Expected net from selling the new item then. */
+  futureResale: number;
+  financing: FinancingCost;
+  /** Recurring costs accumulated over monthsOwn. */
+  runningCosts: number;
+  effectiveCost: number;
+  totalExpectedUses: number;
+  costPerUse: number;
+  financialScore: number;
+  utilityScore: number;
+  riskScore: number;
+  decisionScore: number;
+  verdict: Verdict;
+};
+
+/** Overrides used to re-score "what if" scenarios with the same formulas. */
+export type ScenarioOverrides = {
+  sticker?: number;
+  offset?: number;
+  /** Expected net from reselling the new item later. */
+  futureResale?: number;
+  /** Non-cash cost added to the effective cost (never financed). */
+  extraCost?: number;
+  /** This month's budget: budget pain is derived unless set by hand. */
+  budget?: BudgetContext | null;
+};
+
+// ---------- Defaults ----------
+/** The example shown on first visit. */
+export const EXAMPLE_INPUTS: BuyInputs = {
+  itemName: "Example: Sony WH-1000XM5",
+  price: 500,
+  taxRegion: "CA-ON",
+  taxRatePct: 13,
+  fees: [],
+  paymentMethod: "cash",
+  financeAprPct: 20.99,
+  financeMonths: 12,
+  bnplInstallments: 4,
+  financeFees: 0,
+  budgetImpact: 5,
+  budgetManual: false,
+  needLevel: 4,
+  useFrequency: 7,
+  joyScore: 6,
+  longevity: 6,
+  workRelated: false,
+  expectSalePrice: 250,
+  saleProbabilityPct: 80,
+  platformFees: 25,
+  shipCost: 20,
+  timeHours: 2,
+  hourlyValue: 40,
+  friction: 10,
+  resaleAggressive: false,
+  condKey: "like_new",
+  demandKey: "medium",
+  resaleNewItem: false,
+  categoryKey: "electronics",
+  resaleCondKey: "good",
+  newResaleProbPct: 80,
+  newResaleFeesPct: 10,
+  simulateWait: false,
+  targetDiscountPct: 10,
+  monthsToWait: 1,
+  saleChancePct: 60,
+  priceDriftPctPerYear: 0,
+  simulateResale: false,
+  salePriceSpreadPct: 20,
+  saleProbSpreadPct: 20,
+  timeSpreadPct: 50,
+  feesSpreadPct: 20,
+  monthsOwn: 24,
+  usesPerWeek: 5,
+  recurringCosts: [],
+  keepOldItem: false,
+  minimalismStrength: 6,
+  returnPolicy: 7,
+  warranty: 6,
+  spaceFit: 8,
+  altAvailable: 5,
+  urgency: 4,
+  wFinancial: 0.45,
+  wUtility: 0.4,
+  wRisk: 0.15,
+  normalizeWeights: true,
+  weightProfile: DEFAULT_PROFILE,
+  coefficients: DEFAULT_COEFFICIENTS,
+  criteria: [],
+};
+
+/**
+ * What "New entry" resets the form to. Share links only carry what differs
+ * from these, so changing one means a new SHARE_VERSION (src/lib/share.ts).
+ */
+export const BLANK_INPUTS: BuyInputs = {
+  itemName: "",
+  price: 0,
+  taxRegion: CUSTOM_TAX_REGION,
+  taxRatePct: 13,
+  fees: [],
+  paymentMethod: "cash",
+  financeAprPct: 20.99,
+  financeMonths: 12,
+  bnplInstallments: 4,
+  financeFees: 0,
+  budgetImpact: 5,
+  budgetManual: false,
+  needLevel: 5,
+  useFrequency: 5,
+  joyScore: 5,
+  longevity: 5,
+  workRelated: false,
+  expectSalePrice: 0,
+  saleProbabilityPct: 50,
+  platformFees: 0,
+  shipCost: 0,
+  timeHours: 1,
+  hourlyValue: 30,
+  friction: 0,
+  resaleAggressive: false,
+  condKey: "like_new",
+  demandKey: "medium",
+  resaleNewItem: false,
+  categoryKey: "electronics",
+  resaleCondKey: "good",
+  newResaleProbPct: 80,
+  newResaleFeesPct: 10,
+  simulateWait: false,
+  targetDiscountPct: 10,
+  monthsToWait: 1,
+  saleChancePct: 60,
+  priceDriftPctPerYear: 0,
+  simulateResale: false,
+  salePriceSpreadPct: 20,
+  saleProbSpreadPct: 20,
+  timeSpreadPct: 50,
+  feesSpreadPct: 20,
+  monthsOwn: 12,
+  usesPerWeek: 3,
+  recurringCosts: [],
+  keepOldItem: false,
+  minimalismStrength: 6,
+  returnPolicy: 7,
+  warranty: 6,
+  spaceFit: 7,
+  altAvailable: 5,
+  urgency: 4,
+  wFinancial: 0.45,
+  wUtility: 0.4,
+  wRisk: 0.15,
+  normalizeWeights: true,
+  weightProfile: DEFAULT_PROFILE,
+  coefficients: DEFAULT_COEFFICIENTS,
+  criteria: [],
+};
+
+// ---------- Building blocks ----------
+export const conditionFor = (key: ConditionKey) =>
+  CONDITION_PRESETS.find((c) => c.key === key) ?? CONDITION_PRESETS[1];
+
+export const demandFor = (key: DemandKey) =>
+  DEMAND_PRESETS.find((d) => d.key === key) ?? DEMAND_PRESETS[1];
+
+/** Score bands, highest first; the last band catches everything below. */
+export const VERDICT_BANDS: VerdictBand[] = [
+  { min: 80, label: "Buy", tone: "green" },
+  { min: 65, label: "Lean Buy (watch price)", tone: "blue" },
+  { min: 50, label: "Wait / Re-evaluate", tone: "yellow" },
+  { min: 0, label: "Skip for now", tone: "red" },
+];
+
+/** `bands` must be sorted highest cutoff first (see normalizeBands). */
+export const bandIndexFor = (
+  decisionScore: number,
+  bands: VerdictBand[] = VERDICT_BANDS
+) => {
+  const i = bands.findIndex((b) => decisionScore >= b.min);
+  return i === -1 ? bands.length - 1 : i;
+};
+
+export const verdictFor = (
+  decisionScore: number,
+  bands: VerdictBand[] = VERDICT_BANDS
+): Verdict => {
+  const { label, tone } = bands[bandIndexFor(decisionScore, bands)];
+  return { label, tone };
+};
+
+const financialScoreFor = (
+  s: BuyInputs,
+  {
+    sticker,
+    offset,
+    eff,
+    costPerUse,
+  }: {
+    sticker: number;
+    offset: number;
+    eff: number;
+    costPerUse: number;
+  }
+) => {
+  const c = s.coefficients;
+  const affordability = clamp(100 - s.budgetImpact * c.mBudget);
+  const usage = clamp(
+    s.useFrequency * c.mFrequency + s.longevity * c.mLongevity
+  );
+  const priceDrag = clamp(100 - (eff / Math.max(1, s.price)) * c.mPriceDrag);
+  const resaleBonus = s.resaleAggressive
+    ? clamp((offset / Math.max(1, sticker)) * 100) * c.fResaleBonus
+    : 0;
+  const cpuBonus =
+    costPerUse < c.cpuGreatBelow
+      ? c.cpuGreatBonus
+      : costPerUse < c.cpuGoodBelow
+        ? c.cpuGoodBonus
+        : 0;
+  const base =
+    c.fAffordability * affordability +
+    c.fUsage * usage +
+    c.fPriceDrag * priceDrag +
+    resaleBonus +
+    cpuBonus;
+  return clamp(base);
+};
+
+const utilityScoreFor = (
+  s: BuyInputs,
+  { sticker, offset }: { sticker: number; offset: number }
+) => {
+  const c = s.coefficients;
+  const need = s.needLevel * c.mNeed;
+  const joy = s.joyScore * c.mJoy;
+  const freq = s.useFrequency * c.mFrequency;
+  const work = s.workRelated ? c.uWorkBonus : 0;
+  const aggressiveNudge = s.resaleAggressive
+    ? Math.min(
+        c.uResaleNudgeMax,
+        (offset / Math.max(1, sticker)) * c.uResaleNudgeScale
+      )
+    : 0;
+  return clamp(
+    c.uNeed * need + c.uFrequency * freq + c.uJoy * joy + work + aggressiveNudge
+  );
+};
+
+const riskScoreFor = (s: BuyInputs) => {
+  const c = s.coefficients;
+  const returns = s.returnPolicy * c.mReturns;
+  const warr = s.warranty * c.mWarranty;
+  const space = s.spaceFit * c.mSpace;
+  const alt = 100 - s.altAvailable * c.mAlternatives;
+  const urg = s.urgency * c.mUrgency;
+  const clutterPenalty = s.keepOldItem ? s.minimalismStrength : 0;
+  const base =
+    c.rReturns * returns +
+    c.rWarranty * warr +
+    c.rSpace * space +
+    c.rAlternatives * alt +
+    c.rUrgency * urg -
+    clutterPenalty;
+  return clamp(base);
+};
+
+// ---------- Engine ----------
+/**
+ * Score a purchase. `overrides` swaps in a different sticker, resale offset
+ * and/or future resale while keeping every other term (including
+ * cost-per-use) intact, which is what the sensitivity scenarios need.
+ * `bands` only affects the verdict label, never the score.
+ */
+export function scoreBuy(
+  inputs: BuyInputs,
+  overrides: ScenarioOverrides = {},
+  bands: VerdictBand[] = VERDICT_BANDS
+): BuyResult {
+  const s = inputs;
+  const cond = conditionFor(s.condKey);
+  const demand = demandFor(s.demandKey);
+
+  // Derived costs
+  const now = taxBreakdown(s, s.price);
+  const stickerCostWait = taxBreakdown(
+    s,
+    s.price * (1 - s.targetDiscountPct / 100)
+  ).total;
+  const stickerCost = overrides.sticker ?? now.total;
+
+  // Adjusted by condition/demand
+  const adjSaleProb = clamp(
+    s.saleProbabilityPct * cond.probMult * demand.probMult,
+    0,
+    100
+  );
+  const adjTimeHours = Math.max(0, s.timeHours + (demand.timeHoursAdd ?? 0));
+  const adjSalePrice = s.expectSalePrice * cond.priceMult;
+
+  // Trade-in of the old item (nothing to sell if you're keeping it)
+  const sellingCosts =
+    s.platformFees + s.shipCost + adjTimeHours * s.hourlyValue + s.friction;
+  const expectedOffset = s.keepOldItem
+    ? 0
+    : Math.max(0, adjSalePrice * (adjSaleProb / 100) - sellingCosts);
+  const bestOffset = s.keepOldItem
+    ? 0
+    : Math.max(0, adjSalePrice - sellingCosts);
+  const resaleOffset = overrides.offset ?? expectedOffset;
+
+  // Resale of the new item after monthsOwn
+  const futureResaleValue = s.resaleNewItem
+    ? s.price *
+      residualShare(s.categoryKey, s.monthsOwn) *
+      conditionFor(s.resaleCondKey).priceMult
+    : 0;
+  const futureResale =
+    overrides.futureResale ??
+    futureResaleValue *
+      (clamp(s.newResaleProbPct, 0, 100) / 100) *
+      (1 - clamp(s.newResaleFeesPct, 0, 100) / 100);
+
+  // Per-use & running costs
+  const totalExpectedUses = Math.max(1, s.usesPerWeek * 4.33 * s.monthsOwn);
+  const runningCosts = runningCostsFor(
+    s.recurringCosts,
+    s.monthsOwn,
+    totalExpectedUses
+  );
+
+  // Effective
+  const financing = financingCost(s, stickerCost);
+  const effectiveCost = Math.max(
+    0,
+    stickerCost +
+      financing.costOfCredit +
+      runningCosts +
+      (overrides.extraCost ?? 0) -
+      resaleOffset -
+      futureResale
+  );
+  const costPerUse = effectiveCost / totalExpectedUses;
+
+  // Budget pain from this month's budget, for what this sticker costs a month
+  const budgetImpact =
+    overrides.budget && !s.budgetManual
+      ? budgetPainFor(monthlyOutlay(financing), overrides.budget)
+      : s.budgetImpact;
+
+  // Scores
+  const financialScore = withCriteria(
+    financialScoreFor(
+      { ...s, budgetImpact },
+      {
+        sticker: stickerCost,
+        offset: resaleOffset,
+        eff: effectiveCost,
+        costPerUse,
+      }
+    ),
+    s.criteria,
+    "financial"
+  );
+  const utilityScore = withCriteria(
+    utilityScoreFor(s, {
+      sticker: stickerCost,
+      offset: resaleOffset,
+    }),
+    s.criteria,
+    "utility"
+  );
+  const riskScore = withCriteria(riskScoreFor(s), s.criteria, "risk");
+  const w = effectiveWeights(s);
+  const decisionScore = Math.round(
+    clamp(
+      w.wFinancial * financialScore +
+        w.wUtility * utilityScore +
+        w.wRisk * riskScore
+    )
+  );
+
+  return {
+    tax: now.tax,
+    taxLines: now.lines,
+    fees: now.fees,
+    stickerCost,
+    stickerCostWait,
+    adjSaleProb,
+    adjTimeHours,
+    adjSalePrice,
+    resaleOffset,
+    bestOffset,
+    futureResaleValue,
+    futureResale,
+    financing,
+    runningCosts,
+    effectiveCost,
+    totalExpectedUses,
+    costPerUse,
+    financialScore,
+    utilityScore,
+    riskScore,
+    decisionScore,
+    verdict: verdictFor(decisionScore, bands),
+  };
+}
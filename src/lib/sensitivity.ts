@@ -0,0 +1,107 @@
+// src/lib/sensitivity.ts
+import type { BudgetContext } from "./budget";
+import { CATEGORY_PRESETS } from "./depreciation";
+import { INPUT_KEYS, INPUT_LABELS, isNumericKey, rangeFor } from "./fields";
+import { PAYMENT_METHOD_OPTIONS } from "./financing";
+import {
+  CONDITION_PRESETS,
+  DEMAND_PRESETS,
+  scoreBuy,
+  type BuyInputs,
+  type BuyResult,
+} from "./scoring";
+import { plannedWaitMonths, waitScenario } from "./wait";
+
+export type Sensitivity = {
+  current: number;
+  noResale: number;
+  bestResale: number;
+  waitSale: number | null;
+};
+
+/** "Now" vs the no-resale, best-case-resale and wait scenarios. */
+export function sensitivityFor(
+  inputs: BuyInputs,
+  budget: BudgetContext | null = null,
+  base: BuyResult = scoreBuy(inputs, { budget })
+): Sensitivity {
+  return {
+    current: base.decisionScore,
+    noResale: scoreBuy(inputs, { offset: 0, futureResale: 0, budget })
+      .decisionScore,
+    bestResale: scoreBuy(inputs, { offset: base.bestOffset, budget })
+      .decisionScore,
+    waitSale: inputs.simulateWait
+      ? waitScenario(inputs, plannedWaitMonths(inputs), budget, base).score
+      : null,
+  };
+}
+
+// ---------- Tornado (one input at a time) ----------
+export type TornadoEnd = { value: string; score: number };
+
+export type TornadoRow = {
+  key: keyof BuyInputs;
+  label: string;
+  /** The end of the range that gives the lowest score… */
+  low: TornadoEnd;
+  /** …and the one that gives the highest. */
+  high: TornadoEnd;
+  swing: number;
+};
+
+const numberText = (n: number) => String(Math.round(n * 100) / 100);
+
+/** The values to try for one input, holding everything else constant. */
+const candidatesFor = (
+  inputs: BuyInputs,
+  key: keyof BuyInputs
+): { value: string; inputs: BuyInputs }[] => {
+  const v = inputs[key];
+  const tryValue = (value: string, x: unknown) => ({
+    value,
+    inputs: { ...inputs, [key]: x },
+  });
+  if (isNumericKey(key)) {
+    const { min, max } = rangeFor(key, v as number);
+    return min === max
+      ? []
+      : [tryValue(numberText(min), min), tryValue(numberText(max), max)];
+  }
+  if (typeof v === "boolean")
+    return [tryValue("No", false), tryValue("Yes", true)];
+  if (key === "condKey" || key === "resaleCondKey")
+    return CONDITION_PRESETS.map((c) => tryValue(c.label, c.key));
+  if (key === "categoryKey")
+    return CATEGORY_PRESETS.map((c) => tryValue(c.label, c.key));
+  if (key === "demandKey")
+    return DEMAND_PRESETS.map((d) => tryValue(d.label, d.key));
+  if (key === "paymentMethod")
+    return PAYMENT_METHOD_OPTIONS.map((o) => tryValue(o.label, o.key));
+  return [];
+};
+
+/**
+ * Swing every input across its range (see INPUT_RANGES) and record how far
+ * the decision score moves. Inputs that don't move it are left out; the
+ * rest are sorted by impact.
+ */
+export function tornadoFor(
+  inputs: BuyInputs,
+  budget: BudgetContext | null = null
+): TornadoRow[] {
+  const rows: TornadoRow[] = [];
+  for (const key of INPUT_KEYS) {
+    const scored = candidatesFor(inputs, key).map((c) => ({
+      value: c.value,
+      score: scoreBuy(c.inputs, { budget }).decisionScore,
+    }));
+    if (scored.length < 2) continue;
+    const low = scored.reduce((a, b) => (b.score < a.score ? b : a));
+    const high = scored.reduce((a, b) => (b.score > a.score ? b : a));
+    const swing = high.score - low.score;
+    if (swing > 0)
+      rows.push({ key, label: INPUT_LABELS[key], low, high, swing });
+  }
+  return rows.sort((a, b) => b.swing - a.swing);
+}
@@ -0,0 +1,114 @@
+// src/lib/settings.ts
+import { parseBands } from "./bands";
+import { DEFAULT_BUDGET, isBudgetProfile, type BudgetProfile } from "./budget";
+import { isCoefficients, type Coefficients } from "./coefficients";
+import {
+  DEFAULT_COOLING_OFF,
+  isCoolingOffRule,
+  type CoolingOffRule,
+} from "./coolingoff";
+import { DEFAULT_MONEY, isCurrencyCode, LOCALE_OPTIONS } from "./format";
+import { isRecord } from "./guards";
+import { VERDICT_BANDS, type VerdictBand } from "./scoring";
+import { isBuiltInProfile, WEIGHT_KEYS, type WeightProfile } from "./weights";
+
+/**
+ * App-wide preferences (localStorage). Unlike entries these are not
+ * versioned: unknown or invalid fields just fall back to defaults.
+ */
+
+const SETTINGS_KEY = "bon_settings";
+
+export type Settings = {
+  /** Currency for new entries. Saved entries keep their own. */
+  currency: string;
+  locale: string;
+  /** Score → verdict mapping for new decisions. Saved entries keep theirs. */
+  bands: VerdictBand[];
+  /** User-made weight profiles (the built-in ones aren't stored). */
+  weightProfiles: WeightProfile[];
+  /** Formula coefficients per weight profile name (built-in ones too). */
+  profileCoefficients: Record<string, Coefficients>;
+  /** Monthly budget behind the derived budget pain (off by default). */
+  budget: BudgetProfile;
+  /** Days after a decision before History asks how it went. */
+  reviewAfterDays: number;
+  /** "Sleep on it" rule for new entries. */
+  coolingOff: CoolingOffRule;
+};
+
+export const DEFAULT_SETTINGS: Settings = {
+  currency: DEFAULT_MONEY.currency,
+  locale: DEFAULT_MONEY.locale,
+  bands: VERDICT_BANDS,
+  weightProfiles: [],
+  profileCoefficients: {},
+  budget: DEFAULT_BUDGET,
+  reviewAfterDays: 30,
+  coolingOff: DEFAULT_COOLING_OFF,
+};
+
+const isLocale = (v: unknown): v is string =>
+  typeof v === "string" && LOCALE_OPTIONS.some((o) => o.key === v);
+
+const isWeightProfile = (
+  v: unknown
+): v is Omit<WeightProfile, "coefficients"> =>
+  isRecord(v) &&
+  typeof v.name === "string" &&
+  v.name.trim() !== "" &&
+  !isBuiltInProfile(v.name) &&
+  isRecord(v.weights) &&
+  WEIGHT_KEYS.every((k) => {
+    const w = (v.weights as Record<string, unknown>)[k];
+    return typeof w === "number" && Number.isFinite(w) && w >= 0;
+  });
+
+export function parseSettings(raw: unknown): Settings {
+  const s = isRecord(raw) ? raw : {};
+  return {
+    currency: isCurrencyCode(s.currency)
+      ? s.currency
+      : DEFAULT_SETTINGS.currency,
+    locale: isLocale(s.locale) ? s.locale : DEFAULT_SETTINGS.locale,
+    bands: parseBands(s.bands) ?? DEFAULT_SETTINGS.bands,
+    weightProfiles: Array.isArray(s.weightProfiles)
+      ? s.weightProfiles.filter(isWeightProfile)
+      : DEFAULT_SETTINGS.weightProfiles,
+    profileCoefficients: isRecord(s.profileCoefficients)
+      ? Object.fromEntries(
+          Object.entries(s.profileCoefficients).filter(
+            (e): e is [string, Coefficients] => isCoefficients(e[1])
+          )
+        )
+      : DEFAULT_SETTINGS.profileCoefficients,
+    budget: isBudgetProfile(s.budget) ? s.budget : DEFAULT_SETTINGS.budget,
+    reviewAfterDays:
+      typeof s.reviewAfterDays === "number" &&
+      Number.isInteger(s.reviewAfterDays) &&
+      s.reviewAfterDays >= 1
+        ? s.reviewAfterDays
+        : DEFAULT_SETTINGS.reviewAfterDays,
+    coolingOff: isCoolingOffRule(s.coolingOff)
+      ? s.coolingOff
+      : DEFAULT_SETTINGS.coolingOff,
+  };
+}
+
+export function readSettings(): Settings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    return parseSettings(raw ? JSON.parse(raw) : null);
+  } catch (err) {
+    console.warn(err);
+    return DEFAULT_SETTINGS;
+  }
+}
+
+export function writeSettings(settings: Settings) {
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.warn(err);
+  }
+}
@@ -0,0 +1,101 @@
+// src/lib/share.ts
+import { isCurrencyCode } from "./format";
+import { isRecord } from "./guards";
+import { parseInputs } from "./schema";
+import { BLANK_INPUTS, type BuyInputs } from "./scoring";
+
+/**
+ * Shareable scenario links: `#s=<version>.<base64url(json)>&c=<currency>`.
+ * Only fields that differ from BLANK_INPUTS are written, which keeps links
+ * short; the reader fills the rest back in from the same defaults, after
+ * migrating links written against older ones.
+ */
+
+export const SHARE_VERSION = 2;
+const SHARE_PARAM = "s";
+const CURRENCY_PARAM = "c";
+
+type Delta = Record<string, unknown>;
+
+/**
+ * SHARE_MIGRATIONS[n] upgrades a version-n payload to version n+1 by filling
+ * back in the defaults it was written against.
+ */
+const SHARE_MIGRATIONS: Record<number, (d: Delta) => Delta> = {
+  // v1: weights were used as entered, the wait sale was certain and budget
+  // pain was always set by hand.
+  1: (d) => ({
+    normalizeWeights: false,
+    weightProfile: "",
+    saleChancePct: 100,
+    budgetManual: true,
+    ...d,
+  }),
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(bin, (c) => c.charCodeAt(0)));
+};
+
+export type SharedScenario = {
+  inputs: BuyInputs;
+  /** Currency the sender entered amounts in, if the link says. */
+  currency?: string;
+};
+
+/** Hash fragment (without the leading `#`) for a scenario. */
+export function encodeScenario(inputs: BuyInputs, currency?: string): string {
+  const delta: Partial<Record<keyof BuyInputs, unknown>> = {};
+  for (const key of Object.keys(BLANK_INPUTS) as (keyof BuyInputs)[]) {
+    if (JSON.stringify(inputs[key]) !== JSON.stringify(BLANK_INPUTS[key]))
+      delta[key] = inputs[key];
+  }
+  const params = new URLSearchParams({
+    [SHARE_PARAM]: `${SHARE_VERSION}.${toBase64Url(JSON.stringify(delta))}`,
+  });
+  if (currency) params.set(CURRENCY_PARAM, currency);
+  return params.toString();
+}
+
+/** Scenario from a `location.hash`, or null if there isn't a valid one. */
+export function decodeScenario(hash: string): SharedScenario | null {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const value = params.get(SHARE_PARAM);
+  const match = value?.match(/^(\d+)\.(.+)$/);
+  // Written by a newer version of the app — don't guess.
+  if (!match || Number(match[1]) > SHARE_VERSION) return null;
+  try {
+    let delta: unknown = JSON.parse(fromBase64Url(match[2]));
+    for (let v = Number(match[1]); v < SHARE_VERSION; v++) {
+      const step = SHARE_MIGRATIONS[v];
+      if (!step || !isRecord(delta)) return null;
+      delta = step(delta);
+    }
+    const currency = params.get(CURRENCY_PARAM);
+    return {
+      inputs: parseInputs(delta).inputs,
+      currency: isCurrencyCode(currency) ? currency : undefined,
+    };
+  } catch {
+    return null;
+  }
+}
+
+export const shareUrl = (inputs: BuyInputs, currency?: string) =>
+  `${location.origin}${location.pathname}${location.search}#${encodeScenario(
+    inputs,
+    currency
+  )}`;
+
+/** Drop the scenario from the address bar without adding a history step. */
+export const clearShareHash = () =>
+  history.replaceState(null, "", `${location.pathname}${location.search}`);
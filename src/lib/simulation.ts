@@ -0,0 +1,139 @@
+// src/lib/simulation.ts
+import type { BudgetContext } from "./budget";
+import {
+  bandIndexFor,
+  clamp,
+  conditionFor,
+  demandFor,
+  scoreBuy,
+  VERDICT_BANDS,
+  type BuyInputs,
+  type VerdictBand,
+} from "./scoring";
+
+/**
+ * Monte Carlo view of Sell-to-Offset.
+ * The point estimate multiplies sale price by probability, which hides the
+ * chance of not selling at all. Here every draw either sells (for a sampled
+ * price, time and fees) or doesn't (offset 0), and is then scored with the
+ * same engine as "Now".
+ */
+
+export const SIMULATION_DRAWS = 5000;
+
+/** Small seeded PRNG so the same inputs always give the same numbers. */
+export const mulberry32 = (seed: number) => () => {
+  let t = (seed += 0x6d2b79f5);
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/** Triangular distribution on [lo, hi] peaking at `mode`. */
+const triangular = (u: number, lo: number, mode: number, hi: number) => {
+  if (hi <= lo) return mode;
+  const f = (mode - lo) / (hi - lo);
+  return u < f
+    ? lo + Math.sqrt(u * (hi - lo) * (mode - lo))
+    : hi - Math.sqrt((1 - u) * (hi - lo) * (hi - mode));
+};
+
+/** Sample around `v` by ±spreadPct, never below 0. */
+const around = (rand: () => number, v: number, spreadPct: number) => {
+  const d = Math.abs(v) * (spreadPct / 100);
+  return Math.max(0, triangular(rand(), v - d, v, v + d));
+};
+
+export type Percentiles = {
+  p10: number;
+  p50: number;
+  p90: number;
+  mean: number;
+};
+
+export type BandOdds = VerdictBand & { probability: number };
+
+export type SimulationResult = {
+  draws: number;
+  /** Share of draws in which the item actually sold. */
+  sellRate: number;
+  effectiveCost: Percentiles;
+  decisionScore: Percentiles;
+  bands: BandOdds[];
+};
+
+const quantile = (sorted: number[], q: number) => {
+  const pos = (sorted.length - 1) * q;
+  const lo = Math.floor(pos);
+  const hi = Math.ceil(pos);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (pos - lo);
+};
+
+export const percentilesOf = (values: number[]): Percentiles => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    p10: quantile(sorted, 0.1),
+    p50: quantile(sorted, 0.5),
+    p90: quantile(sorted, 0.9),
+    mean: values.reduce((sum, v) => sum + v, 0) / values.length,
+  };
+};
+
+export function runMonteCarlo(
+  inputs: BuyInputs,
+  bands: VerdictBand[] = VERDICT_BANDS,
+  budget: BudgetContext | null = null,
+  draws = SIMULATION_DRAWS,
+  seed = 1
+): SimulationResult {
+  const s = inputs;
+  const rand = mulberry32(seed);
+  const cond = conditionFor(s.condKey);
+  const demand = demandFor(s.demandKey);
+
+  const costs: number[] = [];
+  const scores: number[] = [];
+  const bandCounts = bands.map(() => 0);
+  let sold = 0;
+
+  for (let i = 0; i < draws; i++) {
+    const prob = clamp(
+      around(rand, s.saleProbabilityPct, s.saleProbSpreadPct) *
+        cond.probMult *
+        demand.probMult,
+      0,
+      100
+    );
+    const salePrice =
+      around(rand, s.expectSalePrice, s.salePriceSpreadPct) * cond.priceMult;
+    const hours = Math.max(
+      0,
+      around(rand, s.timeHours, s.timeSpreadPct) + (demand.timeHoursAdd ?? 0)
+    );
+    const fees = around(rand, s.platformFees, s.feesSpreadPct);
+
+    let offset = 0;
+    if (!s.keepOldItem && rand() < prob / 100) {
+      sold++;
+      offset = Math.max(
+        0,
+        salePrice - fees - s.shipCost - hours * s.hourlyValue - s.friction
+      );
+    }
+    const r = scoreBuy(s, { offset, budget });
+    costs.push(r.effectiveCost);
+    scores.push(r.decisionScore);
+    bandCounts[bandIndexFor(r.decisionScore, bands)]++;
+  }
+
+  return {
+    draws,
+    sellRate: sold / draws,
+    effectiveCost: percentilesOf(costs),
+    decisionScore: percentilesOf(scores),
+    bands: bands.map((b, i) => ({
+      ...b,
+      probability: bandCounts[i] / draws,
+    })),
+  };
+}
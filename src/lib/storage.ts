@@ -0,0 +1,305 @@
+// src/lib/storage.ts
+import { parseBands } from "./bands";
+import { isCoolingOff, type CoolingOff } from "./coolingoff";
+import { DEFAULT_MONEY, isCurrencyCode } from "./format";
+import { isRecord } from "./guards";
+import {
+  isOutcome,
+  isStatus,
+  parseStatusDates,
+  type DecisionOutcome,
+  type EntryStatus,
+  type StatusDates,
+} from "./outcomes";
+import { isPriceObservation, type PriceObservation } from "./pricewatch";
+import type { Revision } from "./revisions";
+import { parseInputs } from "./schema";
+import {
+  BLANK_INPUTS,
+  scoreBuy,
+  VERDICT_BANDS,
+  type BuyInputs,
+  type VerdictBand,
+} from "./scoring";
+
+/**
+ * Saved history (localStorage).
+ * - Every entry carries a schema version `v`
+ * - Older entries are upgraded step by step through MIGRATIONS
+ * - Anything that still can't be read is set aside, never silently dropped
+ */
+
+export const ENTRY_VERSION = 8;
+
+const ENTRIES_KEY = "bon_entries";
+const LEGACY_ENTRIES_KEY = "bon_entries_v1";
+const UNREADABLE_KEY = "bon_entries_unreadable";
+
+export type EntryOutputs = {
+  decisionScore: number;
+  verdict: string;
+  effectiveCost: number;
+  resaleOffset: number;
+  costPerUse: number;
+};
+
+export type Entry = {
+  v: typeof ENTRY_VERSION;
+  id: string;
+  /** When the idea first came up (first save). */
+  createdAt: number;
+  updatedAt: number;
+  name: string;
+  /** Currency the amounts were entered in (ISO 4217). */
+  currency: string;
+  /** The verdict bands `outputs.verdict` was decided with. */
+  bands: VerdictBand[];
+  /** What became of it (see src/lib/outcomes.ts). */
+  status: EntryStatus;
+  statusDates: StatusDates;
+  /** How it actually went, logged at review. */
+  outcome?: DecisionOutcome;
+  /** Prices seen while waiting (see src/lib/pricewatch.ts). */
+  prices: PriceObservation[];
+  /** Sleep-on-it period, for entries that started above the price rule. */
+  coolingOff?: CoolingOff;
+  inputs: BuyInputs;
+  outputs: EntryOutputs;
+  /** Every save, oldest first; the last one matches inputs/outputs. */
+  revisions: Revision[];
+};
+
+type RawEntry = Record<string, unknown>;
+
+export const newEntryId = () =>
+  `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * v7 inputs were read with `budgetManual: false`, so the budget could
+ * replace the pain they were saved with; pinning it keeps the saved score
+ * (budgetImpact holds the pain last used). Inputs from before the wait sale
+ * had a chance scored it as certain.
+ */
+const withV7Defaults = (inputs: unknown) =>
+  isRecord(inputs)
+    ? { saleChancePct: 100, ...inputs, budgetManual: true }
+    : inputs;
+
+/** MIGRATIONS[n] upgrades a version-n entry to version n+1. */
+const MIGRATIONS: Record<number, (e: RawEntry) => RawEntry> = {
+  // v1 (bon_entries_v1): no version tag, inputs were an untyped bag.
+  1: (e) => ({ ...e, v: 2 }),
+  // v2: amounts were always formatted as CAD.
+  2: (e) => ({ ...e, v: 3, currency: "CAD" }),
+  // v3: verdicts always came from the built-in bands.
+  3: (e) => ({ ...e, v: 4, bands: VERDICT_BANDS }),
+  // v4: weights were used as entered, with no profile.
+  4: (e) => ({
+    ...e,
+    v: 5,
+    inputs: isRecord(e.inputs)
+      ? { ...e.inputs, normalizeWeights: false, weightProfile: "" }
+      : e.inputs,
+  }),
+  // v5: an optional `boughtAt` was the only thing tracked after deciding.
+  5: ({ boughtAt, ...e }) =>
+    typeof boughtAt === "number"
+      ? { ...e, v: 6, status: "bought", statusDates: { bought: boughtAt } }
+      : { ...e, v: 6, status: "considering", statusDates: {} },
+  // v6: saving overwrote the entry, createdAt included; no history kept.
+  6: (e) => ({
+    ...e,
+    v: 7,
+    updatedAt: e.createdAt,
+    revisions: [{ at: e.createdAt, inputs: e.inputs, outputs: e.outputs }],
+  }),
+  // v7: budget pain from before the budget profile was set by hand.
+  7: (e) => ({
+    ...e,
+    v: 8,
+    inputs: withV7Defaults(e.inputs),
+    revisions: Array.isArray(e.revisions)
+      ? e.revisions.map((r) =>
+          isRecord(r) ? { ...r, inputs: withV7Defaults(r.inputs) } : r
+        )
+      : e.revisions,
+  }),
+};
+
+const versionOf = (e: RawEntry) =>
+  typeof e.v === "number" && Number.isInteger(e.v) ? e.v : 1;
+
+export function migrateEntry(raw: RawEntry): RawEntry | null {
+  let e = raw;
+  let v = versionOf(e);
+  // Written by a newer version of the app — don't guess.
+  if (v > ENTRY_VERSION) return null;
+  while (v < ENTRY_VERSION) {
+    const step = MIGRATIONS[v];
+    if (!step) return null;
+    e = step(e);
+    v = versionOf(e);
+  }
+  return e;
+}
+
+const isOutputs = (v: unknown): v is EntryOutputs =>
+  isRecord(v) &&
+  typeof v.verdict === "string" &&
+  ["decisionScore", "effectiveCost", "resaleOffset", "costPerUse"].every(
+    (k) => typeof v[k] === "number" && Number.isFinite(v[k])
+  );
+
+const parseRevisions = (raw: unknown, fallback: BuyInputs): Revision[] =>
+  Array.isArray(raw)
+    ? raw.flatMap((r) =>
+        isRecord(r) &&
+        typeof r.at === "number" &&
+        Number.isFinite(r.at) &&
+        isRecord(r.inputs) &&
+        isOutputs(r.outputs)
+          ? [
+              {
+                at: r.at,
+                inputs: parseInputs(r.inputs, fallback).inputs,
+                outputs: r.outputs,
+              },
+            ]
+          : []
+      )
+    : [];
+
+export const outputsFor = (
+  inputs: BuyInputs,
+  bands: VerdictBand[] = VERDICT_BANDS
+): EntryOutputs => {
+  const r = scoreBuy(inputs, {}, bands);
+  return {
+    decisionScore: r.decisionScore,
+    verdict: r.verdict.label,
+    effectiveCost: r.effectiveCost,
+    resaleOffset: r.resaleOffset,
+    costPerUse: r.costPerUse,
+  };
+};
+
+/** Migrate + validate one stored entry. Returns null if it can't be used. */
+export function parseEntry(raw: unknown): Entry | null {
+  if (!isRecord(raw)) return null;
+  const e = migrateEntry(raw);
+  if (!e || !isRecord(e.inputs)) return null;
+
+  const name = typeof e.name === "string" && e.name ? e.name : "Untitled";
+  const { inputs } = parseInputs(e.inputs, {
+    ...BLANK_INPUTS,
+    itemName: name === "Untitled" ? "" : name,
+  });
+  const bands = parseBands(e.bands) ?? VERDICT_BANDS;
+  const createdAt =
+    typeof e.createdAt === "number" && Number.isFinite(e.createdAt)
+      ? e.createdAt
+      : Date.now();
+  const updatedAt =
+    typeof e.updatedAt === "number" && Number.isFinite(e.updatedAt)
+      ? e.updatedAt
+      : createdAt;
+  // Outputs are a snapshot; only recompute when the snapshot is broken.
+  const outputs = isOutputs(e.outputs) ? e.outputs : outputsFor(inputs, bands);
+  const revisions = parseRevisions(e.revisions, BLANK_INPUTS);
+  return {
+    v: ENTRY_VERSION,
+    id: typeof e.id === "string" && e.id ? e.id : newEntryId(),
+    createdAt,
+    updatedAt,
+    name,
+    currency: isCurrencyCode(e.currency) ? e.currency : DEFAULT_MONEY.currency,
+    bands,
+    status: isStatus(e.status) ? e.status : "considering",
+    statusDates: parseStatusDates(e.statusDates),
+    outcome: isOutcome(e.outcome) ? e.outcome : undefined,
+    prices: Array.isArray(e.prices) ? e.prices.filter(isPriceObservation) : [],
+    coolingOff: isCoolingOff(e.coolingOff) ? e.coolingOff : undefined,
+    inputs,
+    outputs,
+    revisions:
+      revisions.length > 0 ? revisions : [{ at: updatedAt, inputs, outputs }],
+  };
+}
+
+export type ParsedEntries = {
+  entries: Entry[];
+  /** Raw values that failed to parse, kept so they can be recovered. */
+  unreadable: unknown[];
+};
+
+export function parseEntries(raw: unknown): ParsedEntries {
+  const list = Array.isArray(raw)
+    ? raw
+    : isRecord(raw) && Array.isArray(raw.entries)
+      ? raw.entries
+      : null;
+  if (!list) return { entries: [], unreadable: [raw] };
+
+  const entries: Entry[] = [];
+  const unreadable: unknown[] = [];
+  for (const item of list) {
+    const entry = parseEntry(item);
+    if (entry) entries.push(entry);
+    else unreadable.push(item);
+  }
+  return { entries, unreadable };
+}
+
+const readJson = (
+  key: string
+): { ok: true; value: unknown } | { ok: false; raw: string } | null => {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return null;
+  try {
+    return { ok: true, value: JSON.parse(raw) };
+  } catch {
+    return { ok: false, raw };
+  }
+};
+
+/**
+ * Read history, falling back to the legacy v1 key. Pure (no writes) so it is
+ * safe as a lazy useState initializer.
+ */
+export function readEntries(): ParsedEntries {
+  let stashed: unknown[] = [];
+  let result: ParsedEntries = { entries: [], unreadable: [] };
+  try {
+    const stash = readJson(UNREADABLE_KEY);
+    if (stash?.ok && Array.isArray(stash.value)) stashed = stash.value;
+
+    const stored = readJson(ENTRIES_KEY) ?? readJson(LEGACY_ENTRIES_KEY);
+    if (stored?.ok) result = parseEntries(stored.value);
+    else if (stored) result = { entries: [], unreadable: [stored.raw] };
+  } catch (err) {
+    // localStorage itself is unavailable (privacy mode, quota, etc.)
+    console.warn(err);
+  }
+  return { ...result, unreadable: [...stashed, ...result.unreadable] };
+}
+
+export function writeEntries(entries: Entry[]) {
+  try {
+    localStorage.setItem(
+      ENTRIES_KEY,
+      JSON.stringify({ version: ENTRY_VERSION, entries })
+    );
+    localStorage.removeItem(LEGACY_ENTRIES_KEY);
+  } catch (err) {
+    console.warn(err);
+  }
+}
+
+export function writeUnreadable(unreadable: unknown[]) {
+  try {
+    if (unreadable.length === 0) localStorage.removeItem(UNREADABLE_KEY);
+    else localStorage.setItem(UNREADABLE_KEY, JSON.stringify(unreadable));
+  } catch (err) {
+    console.warn(err);
+  }
+}
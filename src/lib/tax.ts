@@ -0,0 +1,138 @@
+// src/lib/tax.ts
+import type { BuyInputs } from "./scoring";
+
+/**
+ * Sales tax by region. A region is a list of percentage components
+ * (GST + PST, HST, state rate…); flat fees such as environmental handling
+ * fees are entered per item and may themselves be taxable.
+ */
+
+export type TaxComponent = { label: string; ratePct: number };
+
+export type TaxRegion = {
+  key: string;
+  label: string;
+  components: TaxComponent[];
+};
+
+export type FlatFee = { label: string; amount: number; taxable: boolean };
+
+export const CUSTOM_TAX_REGION = "custom";
+
+const GST = { label: "GST", ratePct: 5 };
+const hst = (ratePct: number) => [{ label: "HST", ratePct }];
+const usState = (ratePct: number) => [{ label: "State sales tax", ratePct }];
+
+export const TAX_REGIONS: TaxRegion[] = [
+  // Canada
+  { key: "CA-AB", label: "Alberta", components: [GST] },
+  {
+    key: "CA-BC",
+    label: "British Columbia",
+    components: [GST, { label: "PST", ratePct: 7 }],
+  },
+  {
+    key: "CA-MB",
+    label: "Manitoba",
+    components: [GST, { label: "RST", ratePct: 7 }],
+  },
+  { key: "CA-NB", label: "New Brunswick", components: hst(15) },
+  { key: "CA-NL", label: "Newfoundland and Labrador", components: hst(15) },
+  { key: "CA-NS", label: "Nova Scotia", components: hst(14) },
+  { key: "CA-ON", label: "Ontario", components: hst(13) },
+  { key: "CA-PE", label: "Prince Edward Island", components: hst(15) },
+  {
+    key: "CA-QC",
+    label: "Quebec",
+    components: [GST, { label: "QST", ratePct: 9.975 }],
+  },
+  {
+    key: "CA-SK",
+    label: "Saskatchewan",
+    components: [GST, { label: "PST", ratePct: 6 }],
+  },
+  { key: "CA-NT", label: "Northwest Territories", components: [GST] },
+  { key: "CA-NU", label: "Nunavut", components: [GST] },
+  { key: "CA-YT", label: "Yukon", components: [GST] },
+  // United States (statewide rate only — local taxes not included)
+  { key: "US-AZ", label: "Arizona", components: usState(5.6) },
+  { key: "US-CA", label: "California", components: usState(7.25) },
+  { key: "US-CO", label: "Colorado", components: usState(2.9) },
+  { key: "US-FL", label: "Florida", components: usState(6) },
+  { key: "US-GA", label: "Georgia", components: usState(4) },
+  { key: "US-IL", label: "Illinois", components: usState(6.25) },
+  { key: "US-MA", label: "Massachusetts", components: usState(6.25) },
+  { key: "US-MI", label: "Michigan", components: usState(6) },
+  { key: "US-MN", label: "Minnesota", components: usState(6.875) },
+  { key: "US-NJ", label: "New Jersey", components: usState(6.625) },
+  { key: "US-NY", label: "New York", components: usState(4) },
+  { key: "US-NC", label: "North Carolina", components: usState(4.75) },
+  { key: "US-OH", label: "Ohio", components: usState(5.75) },
+  { key: "US-OR", label: "Oregon", components: [] },
+  { key: "US-PA", label: "Pennsylvania", components: usState(6) },
+  { key: "US-TX", label: "Texas", components: usState(6.25) },
+  { key: "US-WA", label: "Washington", components: usState(6.5) },
+  // Other
+  { key: "exempt", label: "Tax exempt", components: [] },
+];
+
+const describe = (r: TaxRegion) =>
+  r.components.length === 0
+    ? "no sales tax"
+    : r.components.map((c) => `${c.label} ${c.ratePct}%`).join(" + ");
+
+const groupOf = (key: string) =>
+  key.startsWith("CA-") ? "Canada" : key.startsWith("US-") ? "US" : "";
+
+export const TAX_REGION_OPTIONS = [
+  ...TAX_REGIONS.map((r) => ({
+    key: r.key,
+    label:
+      [groupOf(r.key), r.label].filter(Boolean).join(" — ") +
+      ` (${describe(r)})`,
+  })),
+  { key: CUSTOM_TAX_REGION, label: "Custom rate" },
+];
+
+export const TAX_REGION_KEYS = TAX_REGION_OPTIONS.map((o) => o.key);
+
+export const taxRegionLabel = (key: string) =>
+  TAX_REGIONS.find((r) => r.key === key)?.label ?? "Custom rate";
+
+/** The components in effect: a preset region, or the custom % as one line. */
+export const taxComponentsFor = (inputs: BuyInputs): TaxComponent[] =>
+  TAX_REGIONS.find((r) => r.key === inputs.taxRegion)?.components ?? [
+    { label: "Sales tax", ratePct: inputs.taxRatePct },
+  ];
+
+export type TaxLine = TaxComponent & { amount: number };
+
+export type TaxBreakdown = {
+  lines: TaxLine[];
+  /** Sum of the tax lines. */
+  tax: number;
+  /** Sum of flat fees (before any tax on them). */
+  fees: number;
+  /** Price + fees + tax. */
+  total: number;
+};
+
+/** Taxes and fees for a given pre-tax price (e.g. the sale price). */
+export function taxBreakdown(inputs: BuyInputs, price: number): TaxBreakdown {
+  const fees = inputs.fees.reduce((sum, f) => sum + f.amount, 0);
+  const taxableBase =
+    price + inputs.fees.reduce((sum, f) => sum + (f.taxable ? f.amount : 0), 0);
+  const lines = taxComponentsFor(inputs).map((c) => ({
+    ...c,
+    amount: (taxableBase * c.ratePct) / 100,
+  }));
+  const tax = lines.reduce((sum, l) => sum + l.amount, 0);
+  return { lines, tax, fees, total: price + fees + tax };
+}
+
+/** "HST 13% + EHF" style summary of what was applied. */
+export const describeTaxes = (inputs: BuyInputs) => {
+  const parts = taxComponentsFor(inputs).map((c) => `${c.label} ${c.ratePct}%`);
+  inputs.fees.forEach((f) => parts.push(f.label || "Fee"));
+  return parts.length > 0 ? parts.join(" + ") : "no tax";
+};
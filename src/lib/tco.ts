@@ -0,0 +1,63 @@
+// src/lib/tco.ts
+import { isRecord } from "./guards";
+
+/**
+ * Total cost of ownership: what the item keeps costing after you buy it
+ * (subscriptions, ink and pods, electricity, maintenance, insurance).
+ * Each cost is entered per month or per use and accumulated over monthsOwn.
+ */
+
+export type RecurringKind =
+  | "subscription"
+  | "consumables"
+  | "electricity"
+  | "maintenance"
+  | "insurance"
+  | "other";
+
+export type RecurringPer = "month" | "use";
+
+export type RecurringCost = {
+  label: string;
+  kind: RecurringKind;
+  amount: number;
+  per: RecurringPer;
+};
+
+export const RECURRING_KIND_OPTIONS: { key: RecurringKind; label: string }[] = [
+  { key: "subscription", label: "Subscription" },
+  { key: "consumables", label: "Consumables" },
+  { key: "electricity", label: "Electricity" },
+  { key: "maintenance", label: "Maintenance" },
+  { key: "insurance", label: "Insurance" },
+  { key: "other", label: "Other" },
+];
+
+export const RECURRING_PER_OPTIONS: { key: RecurringPer; label: string }[] = [
+  { key: "month", label: "per month" },
+  { key: "use", label: "per use" },
+];
+
+export const kindLabel = (kind: RecurringKind) =>
+  RECURRING_KIND_OPTIONS.find((o) => o.key === kind)?.label ?? "Other";
+
+/** One cost accumulated over the ownership period. */
+export const recurringTotal = (
+  c: RecurringCost,
+  months: number,
+  uses: number
+) => Math.max(0, c.amount) * (c.per === "month" ? Math.max(0, months) : uses);
+
+export const runningCostsFor = (
+  costs: RecurringCost[],
+  months: number,
+  uses: number
+) => costs.reduce((sum, c) => sum + recurringTotal(c, months, uses), 0);
+
+export const isRecurringCost = (v: unknown): v is RecurringCost =>
+  isRecord(v) &&
+  typeof v.label === "string" &&
+  typeof v.amount === "number" &&
+  Number.isFinite(v.amount) &&
+  RECURRING_KIND_OPTIONS.some((o) => o.key === v.kind) &&
+  RECURRING_PER_OPTIONS.some((o) => o.key === v.per);
@@ -0,0 +1,337 @@
+// src/lib/transfer.ts
+import { parseBands } from "./bands";
+import { csvNumber, csvText, fromCsvText, parseCsv, toCsv } from "./csv";
+import { isCoolingOff } from "./coolingoff";
+import { isCurrencyCode } from "./format";
+import { isRecord } from "./guards";
+import { isOutcome, isStatus, parseStatusDates } from "./outcomes";
+import { isPriceObservation } from "./pricewatch";
+import { parseInputs } from "./schema";
+import {
+  BLANK_INPUTS,
+  VERDICT_BANDS,
+  type BuyInputs,
+  type VerdictBand,
+} from "./scoring";
+import {
+  ENTRY_VERSION,
+  newEntryId,
+  outputsFor,
+  parseEntries,
+  type Entry,
+  type EntryOutputs,
+} from "./storage";
+
+/**
+ * Moving history between browsers: JSON export, and an import that is
+ * previewed first and then merged or used to replace what's here.
+ */
+
+const EXPORT_APP = "buy-or-not";
+
+export type ExportFile = {
+  app: typeof EXPORT_APP;
+  version: number;
+  exportedAt: string;
+  entries: Entry[];
+};
+
+export function exportEntries(entries: Entry[]): string {
+  const file: ExportFile = {
+    app: EXPORT_APP,
+    version: ENTRY_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+export type ImportPreview = {
+  entries: Entry[];
+  /** How many records in the file could not be read. */
+  skippedCount: number;
+  /** Ids present both in the file and in current history. */
+  conflictIds: string[];
+  exportedAt?: string;
+};
+
+export type ImportParse =
+  { ok: true; preview: ImportPreview } | { ok: false; error: string };
+
+const conflictIds = (incoming: Entry[], current: Entry[]) => {
+  const currentIds = new Set(current.map((e) => e.id));
+  return incoming.filter((e) => currentIds.has(e.id)).map((e) => e.id);
+};
+
+/** Repeated ids within one file get fresh ones, like keep-both does. */
+const withUniqueIds = (entries: Entry[]): Entry[] => {
+  const seen = new Set<string>();
+  return entries.map((e) => {
+    const unique = seen.has(e.id) ? { ...e, id: newEntryId() } : e;
+    seen.add(unique.id);
+    return unique;
+  });
+};
+
+export function parseImport(text: string, current: Entry[]): ImportParse {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { ok: false, error: "This file is not valid JSON." };
+  }
+  // Accept our export envelope, a bare array, or a localStorage dump.
+  if (isRecord(raw) && "app" in raw && raw.app !== EXPORT_APP) {
+    return { ok: false, error: "This file was not exported by Buy-or-Not." };
+  }
+  if (!Array.isArray(raw) && !(isRecord(raw) && Array.isArray(raw.entries))) {
+    return { ok: false, error: "No entries found in this file." };
+  }
+
+  const { entries, unreadable } = parseEntries(raw);
+  if (entries.length === 0) {
+    return {
+      ok: false,
+      error: `None of the ${unreadable.length} entries in this file could be read.`,
+    };
+  }
+  const unique = withUniqueIds(entries);
+  return {
+    ok: true,
+    preview: {
+      entries: unique,
+      skippedCount: unreadable.length,
+      conflictIds: conflictIds(unique, current),
+      exportedAt:
+        isRecord(raw) && typeof raw.exportedAt === "string"
+          ? raw.exportedAt
+          : undefined,
+    },
+  };
+}
+
+// ---------- CSV ----------
+const INPUT_COLUMNS = Object.keys(BLANK_INPUTS) as (keyof BuyInputs)[];
+const OUTPUT_COLUMNS: (keyof EntryOutputs)[] = [
+  "decisionScore",
+  "verdict",
+  "effectiveCost",
+  "resaleOffset",
+  "costPerUse",
+];
+const MONEY_COLUMNS = new Set<string>([
+  "effectiveCost",
+  "resaleOffset",
+  "costPerUse",
+]);
+
+const csvCell = (value: unknown, money = false): string => {
+  if (typeof value === "number") return csvNumber(value, money ? 2 : undefined);
+  if (typeof value === "string") return csvText(value);
+  if (typeof value === "boolean") return value ? "true" : "false";
+  return value === undefined ? "" : JSON.stringify(value);
+};
+
+/**
+ * One row per entry: metadata, every input, then the saved outputs.
+ * Revisions stay out of the sheet; JSON export keeps them.
+ */
+export function exportEntriesCsv(entries: Entry[]): string {
+  const header = [
+    "id",
+    "name",
+    "createdAt",
+    "updatedAt",
+    "currency",
+    "bands",
+    "status",
+    "statusDates",
+    "outcome",
+    "prices",
+    "coolingOff",
+    ...INPUT_COLUMNS,
+    ...OUTPUT_COLUMNS,
+  ];
+  const rows = entries.map((e) => [
+    csvText(e.id),
+    csvText(e.name),
+    new Date(e.createdAt).toISOString(),
+    new Date(e.updatedAt).toISOString(),
+    e.currency,
+    csvCell(e.bands),
+    e.status,
+    csvCell(e.statusDates),
+    csvCell(e.outcome),
+    e.prices.length > 0 ? csvCell(e.prices) : "",
+    csvCell(e.coolingOff),
+    ...INPUT_COLUMNS.map((k) => csvCell(e.inputs[k])),
+    ...OUTPUT_COLUMNS.map((k) => csvCell(e.outputs[k], MONEY_COLUMNS.has(k))),
+  ]);
+  // BOM so spreadsheet apps pick up UTF-8 item names.
+  return "\uFEFF" + toCsv([header, ...rows]);
+}
+
+/** Convert a CSV cell back to the type the input's default has. */
+const fromCsvCell = (cell: string, fallback: unknown): unknown => {
+  const v = cell.trim();
+  if (v === "") return undefined;
+  switch (typeof fallback) {
+    case "number":
+      return Number(v);
+    case "boolean":
+      return /^(true|yes|y|1)$/i.test(v)
+        ? true
+        : /^(false|no|n|0)$/i.test(v)
+          ? false
+          : undefined;
+    case "string":
+      return fromCsvText(cell);
+    default:
+      try {
+        return JSON.parse(v);
+      } catch {
+        return undefined;
+      }
+  }
+};
+
+/**
+ * Map CSV columns back onto entries. Columns are matched by name
+ * (case-insensitive); missing inputs get defaults, a missing currency or
+ * bands column means the current settings, and outputs are recomputed, so
+ * a sheet with just `name,price` is enough to bulk-create candidates.
+ */
+export function parseCsvImport(
+  text: string,
+  current: Entry[],
+  defaultCurrency: string,
+  defaultBands: VerdictBand[] = VERDICT_BANDS
+): ImportParse {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || rows.length === 0) {
+    return { ok: false, error: "No rows found in this CSV file." };
+  }
+  const col = new Map(header.map((h, i) => [h.trim().toLowerCase(), i]));
+  const cell = (row: string[], key: string) => {
+    const i = col.get(key.toLowerCase());
+    return i === undefined ? undefined : row[i];
+  };
+  if (!col.has("name") && !col.has("itemname")) {
+    return { ok: false, error: "The CSV needs a name or itemName column." };
+  }
+
+  const entries: Entry[] = [];
+  let skippedCount = 0;
+  for (const row of rows) {
+    const raw: Record<string, unknown> = {};
+    for (const key of INPUT_COLUMNS) {
+      const v = cell(row, key);
+      if (v !== undefined) raw[key] = fromCsvCell(v, BLANK_INPUTS[key]);
+    }
+    const name = fromCsvText(
+      (cell(row, "name") ?? cell(row, "itemName") ?? "").trim()
+    );
+    if (!name) {
+      skippedCount++;
+      continue;
+    }
+    const { inputs } = parseInputs(raw, { ...BLANK_INPUTS, itemName: name });
+    const created = Date.parse(cell(row, "createdAt") ?? "");
+    const updated = Date.parse(cell(row, "updatedAt") ?? "");
+    const createdAt = Number.isFinite(created) ? created : Date.now();
+    const updatedAt = Number.isFinite(updated) ? updated : createdAt;
+    const status = cell(row, "status")?.trim().toLowerCase();
+    const outcome = fromCsvCell(cell(row, "outcome") ?? "", {});
+    const prices = fromCsvCell(cell(row, "prices") ?? "", []);
+    const coolingOff = fromCsvCell(cell(row, "coolingOff") ?? "", {});
+    const currency = cell(row, "currency")?.trim().toUpperCase();
+    const bands =
+      parseBands(fromCsvCell(cell(row, "bands") ?? "", [])) ?? defaultBands;
+    const outputs = outputsFor(inputs, bands);
+    entries.push({
+      v: ENTRY_VERSION,
+      id: fromCsvText(cell(row, "id")?.trim() ?? "") || newEntryId(),
+      createdAt,
+      updatedAt,
+      name,
+      currency: isCurrencyCode(currency) ? currency : defaultCurrency,
+      bands,
+      status: isStatus(status) ? status : "considering",
+      statusDates: parseStatusDates(
+        fromCsvCell(cell(row, "statusDates") ?? "", {})
+      ),
+      outcome: isOutcome(outcome) ? outcome : undefined,
+      prices: Array.isArray(prices) ? prices.filter(isPriceObservation) : [],
+      coolingOff: isCoolingOff(coolingOff) ? coolingOff : undefined,
+      inputs,
+      outputs,
+      revisions: [{ at: updatedAt, inputs, outputs }],
+    });
+  }
+
+  if (entries.length === 0) {
+    return { ok: false, error: "None of the rows in this CSV could be read." };
+  }
+  const unique = withUniqueIds(entries);
+  return {
+    ok: true,
+    preview: {
+      entries: unique,
+      skippedCount,
+      conflictIds: conflictIds(unique, current),
+    },
+  };
+}
+
+// ---------- Merge ----------
+export type ImportMode = "merge" | "replace";
+export type ConflictStrategy = "skip" | "overwrite" | "keep-both";
+
+export type ImportOutcome = {
+  entries: Entry[];
+  added: number;
+  overwritten: number;
+  skipped: number;
+};
+
+export function applyImport(
+  current: Entry[],
+  incoming: Entry[],
+  mode: ImportMode,
+  onConflict: ConflictStrategy
+): ImportOutcome {
+  if (mode === "replace") {
+    return {
+      entries: incoming,
+      added: incoming.length,
+      overwritten: 0,
+      skipped: 0,
+    };
+  }
+
+  const byId = new Map(incoming.map((e) => [e.id, e]));
+  const currentIds = new Set(current.map((e) => e.id));
+  let overwritten = 0;
+  let skipped = 0;
+
+  // Collisions keep their place in the list; new entries go on top.
+  const merged = current.map((e) => {
+    const other = byId.get(e.id);
+    if (!other || onConflict !== "overwrite") return e;
+    overwritten++;
+    return other;
+  });
+  const added: Entry[] = [];
+  for (const e of incoming) {
+    if (!currentIds.has(e.id)) added.push(e);
+    else if (onConflict === "keep-both")
+      added.push({ ...e, id: newEntryId(), name: `${e.name} (imported)` });
+    else if (onConflict === "skip") skipped++;
+  }
+  return {
+    entries: [...added, ...merged],
+    added: added.length,
+    overwritten,
+    skipped,
+  };
+}
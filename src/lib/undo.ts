@@ -0,0 +1,59 @@
+// src/lib/undo.ts
+
+/**
+ * Session undo/redo for the form. Edits that land within COALESCE_MS of the
+ * previous one (a slider drag, typing a number) count as a single step.
+ */
+
+const COALESCE_MS = 800;
+const MAX_STEPS = 100;
+
+export type UndoHistory<T> = {
+  past: T[];
+  present: T;
+  future: T[];
+  /** When `present` was last recorded (for coalescing). */
+  at: number;
+};
+
+export const startHistory = <T>(present: T): UndoHistory<T> => ({
+  past: [],
+  present,
+  future: [],
+  at: 0,
+});
+
+export function record<T>(
+  h: UndoHistory<T>,
+  next: T,
+  now: number = Date.now()
+): UndoHistory<T> {
+  if (next === h.present) return h;
+  const coalesce = h.past.length > 0 && now - h.at < COALESCE_MS;
+  return {
+    past: coalesce ? h.past : [...h.past, h.present].slice(-MAX_STEPS),
+    present: next,
+    future: [],
+    at: now,
+  };
+}
+
+export const undo = <T>(h: UndoHistory<T>): UndoHistory<T> =>
+  h.past.length === 0
+    ? h
+    : {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        at: 0,
+      };
+
+export const redo = <T>(h: UndoHistory<T>): UndoHistory<T> =>
+  h.future.length === 0
+    ? h
+    : {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        at: 0,
+      };
@@ -0,0 +1,144 @@
+// src/lib/wait.ts
+import type { BudgetContext } from "./budget";
+import { clamp, scoreBuy, type BuyInputs, type BuyResult } from "./scoring";
+import { taxBreakdown } from "./tax";
+
+/**
+ * Buy now vs wait for a sale.
+ * Waiting m months is scored with the same engine as "Now", but:
+ * - the sale only happens with some probability (otherwise you pay the
+ *   drifted full price),
+ * - the price drifts by `priceDriftPctPerYear` in the meantime,
+ * - the uses you miss while waiting are charged at today's cost per use,
+ * - urgency costs points for every month you go without.
+ */
+
+/** Longest wait the recommendation considers. */
+export const MAX_WAIT_MONTHS = 12;
+/** Longest wait the form accepts for `monthsToWait`. */
+export const MAX_PLANNED_WAIT_MONTHS = 24;
+
+/** The user's planned wait, kept inside 0–MAX_PLANNED_WAIT_MONTHS. */
+export const plannedWaitMonths = (s: BuyInputs) =>
+  Number.isFinite(s.monthsToWait)
+    ? clamp(s.monthsToWait, 0, MAX_PLANNED_WAIT_MONTHS)
+    : 0;
+
+/** Score points lost per month of waiting, per point of urgency (0–10). */
+const URGENCY_PTS_PER_MONTH = 0.3;
+const MAX_URGENCY_PENALTY = 30;
+/** Steepest yearly price drop the drift is taken at. */
+const MIN_DRIFT_PCT = -99;
+/** Waiting has to beat buying now by at least this much to be recommended. */
+const MIN_WAIT_GAIN = 2;
+
+export type WaitScenario = {
+  months: number;
+  /** Chance the target sale shows up within `months`. */
+  saleChance: number;
+  expectedSticker: number;
+  lostUses: number;
+  lostUseValue: number;
+  urgencyPenalty: number;
+  score: number;
+};
+
+export type WaitAnalysis = {
+  /** The scenario for the user's own `monthsToWait`. */
+  planned: WaitScenario;
+  /** Best option from 0 (buy now) to MAX_WAIT_MONTHS. */
+  best: WaitScenario;
+  curve: WaitScenario[];
+  recommendation: { months: number; gain: number };
+};
+
+/**
+ * `saleChancePct` is the chance within the planned wait; other horizons use
+ * the same constant monthly hazard.
+ */
+const saleChanceWithin = (s: BuyInputs, months: number) => {
+  if (months <= 0) return 0;
+  const p = clamp(s.saleChancePct, 0, 100) / 100;
+  const planned = Math.max(1, plannedWaitMonths(s));
+  return 1 - Math.pow(1 - p, months / planned);
+};
+
+export function waitScenario(
+  inputs: BuyInputs,
+  months: number,
+  budget: BudgetContext | null = null,
+  now: BuyResult = scoreBuy(inputs, { budget })
+): WaitScenario {
+  const s = inputs;
+  months = clamp(months, 0, MAX_PLANNED_WAIT_MONTHS);
+  if (months <= 0) {
+    return {
+      months: 0,
+      saleChance: 0,
+      expectedSticker: now.stickerCost,
+      lostUses: 0,
+      lostUseValue: 0,
+      urgencyPenalty: 0,
+      score: now.decisionScore,
+    };
+  }
+  // At −100%/yr or below the price would hit zero (or go negative).
+  const driftPct = Math.max(MIN_DRIFT_PCT, s.priceDriftPctPerYear);
+  const drift = Math.pow(1 + driftPct / 100, months / 12);
+  const fullPrice = s.price * drift;
+  const salePrice = fullPrice * (1 - s.targetDiscountPct / 100);
+  const saleChance = saleChanceWithin(s, months);
+  const expectedSticker =
+    saleChance * taxBreakdown(s, salePrice).total +
+    (1 - saleChance) * taxBreakdown(s, fullPrice).total;
+
+  const lostUses = s.usesPerWeek * 4.33 * months;
+  const lostUseValue = lostUses * now.costPerUse;
+  const urgencyPenalty = Math.min(
+    MAX_URGENCY_PENALTY,
+    s.urgency * URGENCY_PTS_PER_MONTH * months
+  );
+  const base = scoreBuy(s, {
+    sticker: expectedSticker,
+    extraCost: lostUseValue,
+    offset: now.resaleOffset,
+    budget,
+  });
+  return {
+    months,
+    saleChance,
+    expectedSticker,
+    lostUses,
+    lostUseValue,
+    urgencyPenalty,
+    score: Math.round(clamp(base.decisionScore - urgencyPenalty)),
+  };
+}
+
+export function analyzeWait(
+  inputs: BuyInputs,
+  budget: BudgetContext | null = null,
+  now: BuyResult = scoreBuy(inputs, { budget })
+): WaitAnalysis {
+  const planned = plannedWaitMonths(inputs);
+  const horizon = Math.max(MAX_WAIT_MONTHS, Math.ceil(planned));
+  const curve = Array.from({ length: horizon + 1 }, (_, m) =>
+    waitScenario(inputs, m, budget, now)
+  );
+  const best = curve.reduce((a, b) => (b.score > a.score ? b : a));
+  const gain = best.score - now.decisionScore;
+  return {
+    planned: waitScenario(inputs, planned, budget, now),
+    best,
+    curve,
+    recommendation: {
+      months: gain >= MIN_WAIT_GAIN ? best.months : 0,
+      gain,
+    },
+  };
+}
+
+export const describeRecommendation = (w: WaitAnalysis) =>
+  w.recommendation.months === 0
+    ? "Decide now — waiting doesn't pay off"
+    : `Wait ${w.recommendation.months} mo (+${w.recommendation.gain} pts)`;
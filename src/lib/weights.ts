@@ -0,0 +1,89 @@
+// src/lib/weights.ts
+import type { Coefficients } from "./coefficients";
+import type { BuyInputs } from "./scoring";
+
+/**
+ * Pillar weights and named weight profiles. With normalization on, the
+ * weights are scaled to sum to 1 before scoring, and the linked sliders
+ * keep them there by rebalancing the other two pillars.
+ */
+
+export type WeightKey = "wFinancial" | "wUtility" | "wRisk";
+export type Weights = Pick<BuyInputs, WeightKey>;
+
+export const WEIGHT_KEYS: WeightKey[] = ["wFinancial", "wUtility", "wRisk"];
+
+export type WeightProfile = {
+  name: string;
+  weights: Weights;
+  /** Formula coefficients saved with this profile (defaults if absent). */
+  coefficients?: Coefficients;
+};
+
+export const DEFAULT_PROFILE = "Balanced";
+
+export const BUILT_IN_PROFILES: WeightProfile[] = [
+  {
+    name: DEFAULT_PROFILE,
+    weights: { wFinancial: 0.45, wUtility: 0.4, wRisk: 0.15 },
+  },
+  { name: "Frugal", weights: { wFinancial: 0.65, wUtility: 0.2, wRisk: 0.15 } },
+  {
+    name: "Enthusiast",
+    weights: { wFinancial: 0.2, wUtility: 0.65, wRisk: 0.15 },
+  },
+  {
+    name: "Work gear",
+    weights: { wFinancial: 0.35, wUtility: 0.35, wRisk: 0.3 },
+  },
+];
+
+export const isBuiltInProfile = (name: string) =>
+  BUILT_IN_PROFILES.some((p) => p.name === name);
+
+export const weightsOf = (s: Weights): Weights => ({
+  wFinancial: s.wFinancial,
+  wUtility: s.wUtility,
+  wRisk: s.wRisk,
+});
+
+const sumOf = (w: Weights) => w.wFinancial + w.wUtility + w.wRisk;
+
+/** Scale to sum to 1 (equal thirds if every weight is 0). */
+export function normalizeWeights(w: Weights): Weights {
+  const sum = sumOf(w);
+  if (!(sum > 0)) return { wFinancial: 1 / 3, wUtility: 1 / 3, wRisk: 1 / 3 };
+  return {
+    wFinancial: w.wFinancial / sum,
+    wUtility: w.wUtility / sum,
+    wRisk: w.wRisk / sum,
+  };
+}
+
+/** The weights the engine actually multiplies by. */
+export const effectiveWeights = (
+  s: Weights & Pick<BuyInputs, "normalizeWeights">
+): Weights => (s.normalizeWeights ? normalizeWeights(s) : weightsOf(s));
+
+const round = (v: number) => Math.round(v * 1000) / 1000;
+
+/**
+ * Set one weight and share what's left of 1 between the other two,
+ * keeping their ratio (or splitting evenly if both are 0).
+ */
+export function rebalance(w: Weights, key: WeightKey, value: number): Weights {
+  const v = Math.min(1, Math.max(0, value));
+  const others = WEIGHT_KEYS.filter((k) => k !== key);
+  const rest = others.reduce((sum, k) => sum + w[k], 0);
+  const next = { ...w, [key]: round(v) };
+  others.forEach((k) => {
+    next[k] = round(rest > 0 ? ((1 - v) * w[k]) / rest : (1 - v) / 2);
+  });
+  return next;
+}
+
+export const sameWeights = (a: Weights, b: Weights) =>
+  WEIGHT_KEYS.every((k) => Math.abs(a[k] - b[k]) < 0.001);
+
+export const findProfile = (profiles: WeightProfile[], name: string) =>
+  profiles.find((p) => p.name === name);